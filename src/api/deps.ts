@@ -0,0 +1,212 @@
+/**
+ * Deps API
+ *
+ * Programmatic interface for the pom.xml dependency inventory, the version
+ * catalog check and version updates.
+ */
+
+import { existsSync } from 'fs';
+import { isAbsolute, join, relative } from 'path';
+import {
+  Result,
+  ok,
+  err,
+  DepsListOptions,
+  DepsListResult,
+  DepsSetOptions,
+  DepsUpgradeOptions,
+  DepsUpdateResult,
+  DependencyInfo,
+} from '../types/index.js';
+import { loadPom, readPom, writePom } from '../engine/PomParser.js';
+import { listDependencies } from '../engine/DependencyAnalyzer.js';
+import {
+  VersionChange,
+  applyVersionChanges,
+  parseCoordinates,
+} from '../engine/DependencyUpdater.js';
+import { getFileChanges } from '../utils/diff.js';
+import { CATALOG_FILE, DependencyCatalog, loadCatalog } from '../engine/DependencyCatalog.js';
+import { loadConfig } from '../config/ConfigLoader.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Load the catalog given in options or mule-build.yaml, or the default one if present
+ */
+function resolveCatalog(cwd: string, catalog?: string): Result<DependencyCatalog | undefined> {
+  const configResult = loadConfig(cwd);
+  if (!configResult.success || !configResult.data) {
+    return err(configResult.error ?? new Error('Failed to load configuration'));
+  }
+
+  const configured = catalog ?? configResult.data.dependencies?.catalog;
+  const file = configured
+    ? isAbsolute(configured)
+      ? configured
+      : join(cwd, configured)
+    : join(cwd, CATALOG_FILE);
+
+  // Without a configured catalog, versions are simply not checked
+  if (!configured && !existsSync(file)) {
+    return ok(undefined);
+  }
+
+  return loadCatalog(file);
+}
+
+/**
+ * List pom.xml dependencies and check their versions against the catalog
+ */
+export async function getDependencies(
+  options: DepsListOptions = {}
+): Promise<Result<DepsListResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
+  }
+
+  const catalogResult = resolveCatalog(cwd, options.catalog);
+  if (!catalogResult.success) {
+    return err(catalogResult.error ?? new Error('Failed to load catalog'));
+  }
+  const catalog = catalogResult.data;
+
+  const dependencies = listDependencies(modelResult.data, catalog);
+  const outdated = dependencies.filter((d) => d.status === 'outdated').length;
+  const blocked = dependencies.filter((d) => d.status === 'blocked').length;
+
+  logger.info(`Found ${dependencies.length} dependencies`);
+  if (catalog) {
+    logger.debug(`Checked versions against ${relative(cwd, catalog.file)}`);
+    if (outdated > 0) {
+      logger.warn(`${outdated} dependency version(s) older than the catalog's latest`);
+    }
+    if (blocked > 0) {
+      logger.error(`${blocked} blocked dependency version(s)`);
+    }
+  } else {
+    logger.debug(`No ${CATALOG_FILE}; versions not checked`);
+  }
+
+  return ok({
+    valid: blocked === 0,
+    ...(catalog && { catalog: relative(cwd, catalog.file) }),
+    dependencies,
+    outdated,
+    blocked,
+  });
+}
+
+/**
+ * Apply version changes to pom.xml, or only compute the diff in dry-run
+ */
+function updatePom(
+  cwd: string,
+  changes: VersionChange[],
+  dryRun: boolean,
+  skipped: DependencyInfo[] = []
+): Result<DepsUpdateResult> {
+  const pomResult = readPom(cwd);
+  if (!pomResult.success || pomResult.data === undefined) {
+    return err(pomResult.error ?? new Error('Failed to read pom.xml'));
+  }
+
+  const result = applyVersionChanges(pomResult.data, changes);
+  if (!result.success || !result.data) {
+    return err(result.error ?? new Error('Failed to update pom.xml'));
+  }
+
+  const { updates, content } = result.data;
+
+  for (const u of updates) {
+    const where = u.property ? `property ${u.property}` : u.location;
+    logger.info(`${u.groupId}:${u.artifactId} ${u.from ?? '?'} -> ${u.to} (${where})`);
+    if (u.sharedWith) {
+      logger.warn(`  ${u.property} is also used by ${u.sharedWith.join(', ')}`);
+    }
+  }
+
+  if (dryRun) {
+    logger.info('Running in dry-run mode. pom.xml was not modified.');
+  } else if (updates.length > 0) {
+    const writeResult = writePom(content, cwd);
+    if (!writeResult.success) {
+      return err(writeResult.error ?? new Error('Failed to write pom.xml'));
+    }
+    logger.success(`Updated ${updates.length} version(s) in pom.xml`);
+  } else {
+    logger.info('All versions are already up to date');
+  }
+
+  return ok({
+    updates,
+    changes: getFileChanges('pom.xml', pomResult.data, content),
+    skipped,
+    dryRun,
+  });
+}
+
+/**
+ * Set the version of a dependency or plugin wherever pom.xml defines it
+ */
+export async function setDependencyVersion(
+  options: DepsSetOptions
+): Promise<Result<DepsUpdateResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const coordinatesResult = parseCoordinates(options.coordinates);
+  if (!coordinatesResult.success || !coordinatesResult.data) {
+    return err(coordinatesResult.error ?? new Error('Invalid coordinates'));
+  }
+
+  return updatePom(
+    cwd,
+    [{ ...coordinatesResult.data, version: options.version }],
+    options.dryRun ?? false
+  );
+}
+
+/**
+ * Upgrade outdated and blocked dependencies to the catalog's latest version
+ */
+export async function upgradeDependencies(
+  options: DepsUpgradeOptions = {}
+): Promise<Result<DepsUpdateResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
+  }
+
+  const catalogResult = resolveCatalog(cwd, options.catalog);
+  if (!catalogResult.success) {
+    return err(catalogResult.error ?? new Error('Failed to load catalog'));
+  }
+  if (!catalogResult.data) {
+    return err(new Error(`No version catalog found; create ${CATALOG_FILE} or pass a catalog`));
+  }
+
+  const candidates = listDependencies(modelResult.data, catalogResult.data).filter(
+    (d) => d.status === 'outdated' || d.status === 'blocked'
+  );
+
+  // Blocked versions without a latest version to move to need a manual fix
+  const skipped = candidates.filter((d) => !d.latest);
+  for (const d of skipped) {
+    logger.warn(`${d.groupId}:${d.artifactId}:${d.version} is blocked and has no latest version`);
+  }
+
+  const changes = new Map<string, VersionChange>();
+  for (const d of candidates.filter((d) => d.latest)) {
+    changes.set(`${d.groupId}:${d.artifactId}`, {
+      groupId: d.groupId,
+      artifactId: d.artifactId,
+      version: d.latest as string,
+    });
+  }
+
+  return updatePom(cwd, [...changes.values()], options.dryRun ?? false, skipped);
+}
@@ -4,10 +4,31 @@
  * Programmatic interface for validating secure:: enforcement.
  */
 
-import { join } from 'path';
+import { join, relative, sep } from 'path';
 import { existsSync } from 'fs';
-import { Result, ok, err, EnforceOptions, EnforceResult } from '../types/index.js';
-import { enforceSecure as enforceSecureEngine } from '../engine/XmlProcessor.js';
+import {
+  Result,
+  ok,
+  err,
+  EnforceOptions,
+  EnforceResult,
+  EnforceFixResult,
+} from '../types/index.js';
+import {
+  enforceSecure as enforceSecureEngine,
+  fixSecure as fixSecureEngine,
+  getDefaultEnforceTargets,
+  EnforceCheckOptions,
+} from '../engine/XmlProcessor.js';
+import { scanHistory } from '../engine/HistoryScanner.js';
+import { getChangedEnforceableFiles, enforceStaged } from '../engine/ChangeScanner.js';
+import { BASELINE_FILE, loadBaseline, writeBaseline, applyBaseline } from '../engine/Baseline.js';
+import {
+  loadConfig,
+  getSensitivePatterns,
+  resolveSensitivePatterns,
+  validateSensitivePatterns,
+} from '../config/ConfigLoader.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -16,8 +37,56 @@ import { logger } from '../utils/logger.js';
 export async function enforceSecure(options: EnforceOptions = {}): Promise<Result<EnforceResult>> {
   const cwd = options.cwd ?? process.cwd();
 
+  // Patterns and allowlist from mule-build.yaml, overridable by options
+  const configResult = loadConfig(cwd);
+  if (!configResult.success || !configResult.data) {
+    return err(configResult.error ?? new Error('Failed to load configuration'));
+  }
+
+  const allowlist = options.allowlist ?? configResult.data.security?.allowlist;
+  let sensitivePatterns = getSensitivePatterns(configResult.data);
+
+  if (options.sensitivePatterns) {
+    const patternsResult = validateSensitivePatterns(options.sensitivePatterns);
+    if (!patternsResult.success) {
+      return err(new Error(`Invalid sensitive patterns: ${patternsResult.error?.message}`));
+    }
+    sensitivePatterns = resolveSensitivePatterns(
+      { mode: options.sensitivePatternsMode ?? 'replace', patterns: options.sensitivePatterns },
+      sensitivePatterns
+    );
+  }
+
+  const secretDetection = configResult.data.security?.secretDetection;
+
+  // Scan git history instead of the working tree
+  if (options.history) {
+    if (options.fix || options.updateBaseline) {
+      return err(new Error('Cannot combine fix or updateBaseline with a history scan'));
+    }
+    return enforceHistory(cwd, options, { sensitivePatterns, allowlist, secretDetection });
+  }
+
+  // The baseline file covers the whole project; a partial check would drop the rest
+  if (options.updateBaseline && (options.file || options.directory)) {
+    return err(new Error('Cannot combine updateBaseline with file or directory'));
+  }
+
+  const changesOnly = options.staged || options.changedSince !== undefined;
+  if (changesOnly) {
+    if (options.staged && options.changedSince !== undefined) {
+      return err(new Error('Cannot combine staged with changedSince'));
+    }
+    if (options.file || options.updateBaseline) {
+      return err(new Error('Cannot combine file or updateBaseline with a changed-files check'));
+    }
+    if (options.staged && options.fix) {
+      return err(new Error('Cannot fix staged files; fix the working tree and stage again'));
+    }
+  }
+
   // Determine target
-  let target: string;
+  let target: string | string[];
 
   if (options.file) {
     target = options.file.startsWith('/') ? options.file : join(cwd, options.file);
@@ -30,35 +99,157 @@ export async function enforceSecure(options: EnforceOptions = {}): Promise<Resul
       return err(new Error(`Directory not found: ${target}`));
     }
   } else {
-    // Default to src/main/mule
-    target = join(cwd, 'src', 'main', 'mule');
-    if (!existsSync(target)) {
-      return err(new Error(`Default directory not found: ${target}`));
+    // Default to src/main/mule plus property files in src/main/resources
+    const muleDir = join(cwd, 'src', 'main', 'mule');
+    if (!existsSync(muleDir)) {
+      return err(new Error(`Default directory not found: ${muleDir}`));
+    }
+    target = getDefaultEnforceTargets(muleDir, join(cwd, 'src', 'main', 'resources'));
+  }
+
+  // Narrow the target to the files touched in git
+  if (changesOnly) {
+    const changedResult = await getChangedEnforceableFiles(
+      cwd,
+      { staged: options.staged, since: options.changedSince },
+      Array.isArray(target) ? target : [target]
+    );
+    if (!changedResult.success || !changedResult.data) {
+      return err(changedResult.error ?? new Error('Failed to list changed files'));
     }
+
+    target = changedResult.data;
+    logger.info(
+      options.staged
+        ? `Checking ${target.length} staged file(s)`
+        : `Checking ${target.length} file(s) changed since ${options.changedSince}`
+    );
   }
 
-  const result = await enforceSecureEngine(target, {
-    sensitivePatterns: options.sensitivePatterns,
-    cwd,
-  });
+  // Apply fixes first so the check reports what is left
+  let fixes: EnforceFixResult | undefined;
+  if (options.fix) {
+    if (options.dryRun) {
+      logger.info('Running in dry-run mode. No files will be modified.');
+    }
+
+    const fixResult = await fixSecureEngine(target, {
+      sensitivePatterns,
+      allowlist,
+      dryRun: options.dryRun,
+      cwd,
+    });
+
+    if (!fixResult.success || !fixResult.data) {
+      return err(fixResult.error ?? new Error('Fix operation failed'));
+    }
+
+    fixes = fixResult.data;
+    const verb = options.dryRun ? 'Would add' : 'Added';
+    logger.info(
+      `${verb} ${fixes.replacementCount} secure:: prefix(es) in ${fixes.filesFixed.length} files`
+    );
+  }
+
+  const checkOptions = { sensitivePatterns, allowlist, secretDetection, cwd };
+  const result = options.staged
+    ? await enforceStaged(target as string[], checkOptions)
+    : await enforceSecureEngine(target, checkOptions);
 
   if (!result.success || !result.data) {
     return err(result.error ?? new Error('Enforce operation failed'));
   }
 
-  const data = result.data;
+  let data: EnforceResult = fixes ? { ...result.data, fixes } : result.data;
+
+  // Accept the current findings, then report only findings missing from the baseline
+  if (options.updateBaseline) {
+    const writeResult = writeBaseline(cwd, data.violations);
+    if (!writeResult.success) {
+      return err(writeResult.error ?? new Error('Failed to write baseline'));
+    }
+    logger.success(`Wrote ${data.violations.length} finding(s) to ${BASELINE_FILE}`);
+  }
+
+  if (options.baseline !== false) {
+    const baselineResult = loadBaseline(cwd);
+    if (!baselineResult.success) {
+      return err(baselineResult.error ?? new Error('Failed to load baseline'));
+    }
+    if (baselineResult.data) {
+      data = applyBaseline(data, baselineResult.data);
+    }
+  }
 
   logger.info(`Checked ${data.filesChecked.length} files`);
+  if (data.suppressed > 0) {
+    logger.info(`Suppressed ${data.suppressed} finding(s) by ignore comments or allowlist`);
+  }
+  if (data.baselined) {
+    logger.info(`Skipped ${data.baselined} known finding(s) in ${BASELINE_FILE}`);
+  }
 
   if (data.valid) {
     logger.success('All sensitive properties are properly secured');
   } else {
     logger.error(`Found ${data.violations.length} unsecured sensitive properties:`);
     for (const v of data.violations) {
-      logger.error(`  ${v.file}:${v.line} - ${v.value}`);
+      logger.error(`  ${v.file}:${v.line} - ${v.value} [${v.kind}]`);
       logger.info(`    Suggestion: ${v.suggestion}`);
     }
   }
 
   return ok(data);
 }
+
+/**
+ * Scan git history for committed secrets
+ */
+async function enforceHistory(
+  cwd: string,
+  options: EnforceOptions,
+  checkOptions: EnforceCheckOptions
+): Promise<Result<EnforceResult>> {
+  if (options.file) {
+    return err(new Error('A history scan checks every file; use directory to narrow it'));
+  }
+
+  const pathPrefix = options.directory
+    ? relative(
+        cwd,
+        options.directory.startsWith('/') ? options.directory : join(cwd, options.directory)
+      )
+        .split(sep)
+        .join('/')
+    : undefined;
+
+  logger.info(
+    options.since ? `Scanning git history since ${options.since}...` : 'Scanning git history...'
+  );
+
+  const result = await scanHistory(cwd, { ...checkOptions, since: options.since, pathPrefix });
+  if (!result.success || !result.data) {
+    return err(result.error ?? new Error('History scan failed'));
+  }
+
+  const data = result.data;
+
+  logger.info(`Checked ${data.filesChecked.length} file versions`);
+  if (data.suppressed > 0) {
+    logger.info(`Suppressed ${data.suppressed} finding(s) by ignore comments or allowlist`);
+  }
+
+  if (data.valid) {
+    logger.success('No committed secrets found in git history');
+  } else {
+    logger.error(`Found ${data.violations.length} secrets committed to git history:`);
+    for (const v of data.violations) {
+      logger.error(`  ${v.file}:${v.line} - ${v.value} [${v.kind}]`);
+      logger.info(
+        `    Commit ${v.commit?.sha.slice(0, 7)} by ${v.commit?.author} <${v.commit?.email}> on ${v.commit?.date}`
+      );
+    }
+  }
+
+  return ok(data);
+}
@@ -0,0 +1,84 @@
+/**
+ * Hooks API
+ *
+ * Programmatic interface for installing the git pre-commit hook that runs
+ * enforce on staged files.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync } from 'fs';
+import { join, resolve, relative } from 'path';
+import { Result, ok, err, HooksInstallOptions, HooksInstallResult } from '../types/index.js';
+import { getHooksDir, getRepoPrefix, isGitRepo } from '../utils/git.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Marks hooks written by mule-build, so they can be replaced without --force
+ */
+const HOOK_MARKER = '# Installed by mule-build hooks install';
+
+/**
+ * Build the pre-commit hook script
+ * Git runs hooks from the repository root, so projects in a sub-directory cd
+ * into it first. A mule-build on PATH is preferred over the project's own install.
+ */
+function getPreCommitHook(prefix: string): string {
+  const cd = prefix ? `cd '${prefix.replace(/'/g, `'\\''`)}' || exit 1\n\n` : '';
+
+  return `#!/bin/sh
+${HOOK_MARKER}
+# Blocks commits that stage unsecured sensitive properties or secrets.
+# Bypass once with: git commit --no-verify
+
+${cd}if command -v mule-build >/dev/null 2>&1; then
+  exec mule-build enforce --staged
+fi
+exec npx --no-install mule-build enforce --staged
+`;
+}
+
+/**
+ * Install the pre-commit hook running `mule-build enforce --staged`
+ */
+export async function installHooks(
+  options: HooksInstallOptions = {}
+): Promise<Result<HooksInstallResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  if (!(await isGitRepo(cwd))) {
+    return err(new Error(`Not a git repository: ${cwd}`));
+  }
+
+  const hooksDirResult = await getHooksDir(cwd);
+  if (!hooksDirResult.success || !hooksDirResult.data) {
+    return err(hooksDirResult.error ?? new Error('Failed to locate git hooks directory'));
+  }
+
+  const prefixResult = await getRepoPrefix(cwd);
+  if (!prefixResult.success || prefixResult.data === undefined) {
+    return err(prefixResult.error ?? new Error('Failed to locate repository root'));
+  }
+
+  const hookPath = join(resolve(cwd, hooksDirResult.data), 'pre-commit');
+  const replaced = existsSync(hookPath);
+
+  if (replaced && !readFileSync(hookPath, 'utf-8').includes(HOOK_MARKER) && !options.force) {
+    return err(
+      new Error(`A pre-commit hook already exists at ${hookPath}; use force to replace it`)
+    );
+  }
+
+  try {
+    mkdirSync(resolve(cwd, hooksDirResult.data), { recursive: true });
+    writeFileSync(hookPath, getPreCommitHook(prefixResult.data));
+    chmodSync(hookPath, 0o755);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to write ${hookPath}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+
+  logger.success(`Installed pre-commit hook at ${relative(cwd, hookPath)}`);
+  return ok({ hookPath, replaced });
+}
@@ -10,6 +10,12 @@ export { runLocal } from './run.js';
 export { releaseVersion } from './release.js';
 export { stripSecure } from './strip.js';
 export { enforceSecure } from './enforce.js';
+export { encryptSecure, decryptSecure } from './secure.js';
+export { checkProperties, findUnusedProperties } from './props.js';
+export { restoreBuild } from './restore.js';
+export { installHooks } from './hooks.js';
+export { getDependencies, setDependencyVersion, upgradeDependencies } from './deps.js';
+export { checkPom } from './pom.js';
 
 // Types (re-export for convenience)
 export type {
@@ -23,6 +29,36 @@ export type {
   StripResult,
   EnforceOptions,
   EnforceResult,
+  SecurityViolation,
+  ViolationCommit,
+  ViolationKind,
+  SecureOptions,
+  SecureResult,
+  SecureAlgorithm,
+  SecureMode,
+  PropsCheckOptions,
+  PropsCheckResult,
+  MissingProperty,
+  PropsUnusedOptions,
+  PropsUnusedResult,
+  UnusedProperty,
+  RestoreOptions,
+  RestoreResult,
+  HooksInstallOptions,
+  HooksInstallResult,
+  DepsListOptions,
+  DepsListResult,
+  DepsSetOptions,
+  DepsUpgradeOptions,
+  DepsUpdateResult,
+  DependencyUpdate,
+  PomCheckOptions,
+  PomCheckResult,
+  PomIssue,
+  PomCheckRule,
+  DependencyInfo,
+  DependencyCategory,
+  DependencyStatus,
   DeploymentInfo,
   BuildEnvironment,
   BumpType,
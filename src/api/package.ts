@@ -4,103 +4,61 @@
  * Programmatic interface for building MuleSoft projects.
  */
 
-import {
-  existsSync,
-  copyFileSync,
-  writeFileSync,
-  readFileSync,
-  mkdirSync,
-  unlinkSync,
-  rmSync,
-} from 'fs';
-import { join, basename, relative, dirname } from 'path';
-import { hostname, userInfo, tmpdir } from 'os';
+import { existsSync, copyFileSync, writeFileSync, readFileSync, mkdirSync } from 'fs';
+import { join, basename, relative } from 'path';
+import { hostname, userInfo } from 'os';
 import { Result, ok, err, PackageOptions, PackageResult, DeploymentInfo } from '../types/index.js';
-import { loadConfig, getProfileConfig } from '../config/ConfigLoader.js';
+import { loadConfig, getProfileConfig, getSensitivePatterns } from '../config/ConfigLoader.js';
 import { canBuild } from '../config/SystemChecker.js';
 import {
   stripSecure,
   enforceSecure,
   removeSecurePropertiesConfig,
   getXmlFiles,
+  getDefaultEnforceTargets,
 } from '../engine/XmlProcessor.js';
 import { mavenBuild, findBuiltJar, mavenClean } from '../engine/MavenBuilder.js';
-import { getProjectName, getVersion, setName, backupPom, restorePom } from '../engine/PomParser.js';
+import { getProjectName, getVersion, setName } from '../engine/PomParser.js';
+import { createWorkspace, removeWorkspace, findExternalBuildInputs } from '../engine/Workspace.js';
+import { planSecureDecryption } from '../engine/SecureDecryption.js';
+import { BASELINE_FILE, loadBaseline, applyBaseline } from '../engine/Baseline.js';
+import {
+  beginJournal,
+  recordFile,
+  recordCreatedFile,
+  restoreJournal,
+  installRestoreHandlers,
+  RestoreJournal,
+} from '../engine/RestoreJournal.js';
+import { toSarif } from '../reporters/sarif.js';
 import { logger } from '../utils/logger.js';
 
-/**
- * Backup XML files from a directory to a backup location
- */
-function backupXmlFiles(sourceDir: string, backupDir: string): string[] {
-  const backedUpFiles: string[] = [];
-
-  if (!existsSync(sourceDir)) {
-    return backedUpFiles;
-  }
-
-  // Create backup directory
-  mkdirSync(backupDir, { recursive: true });
-
-  // Get all XML files
-  const xmlFiles = getXmlFiles(sourceDir);
-
-  for (const file of xmlFiles) {
-    const relativePath = relative(sourceDir, file);
-    const backupPath = join(backupDir, relativePath);
-
-    // Create subdirectories in backup if needed
-    const backupSubDir = dirname(backupPath);
-    mkdirSync(backupSubDir, { recursive: true });
-
-    // Copy file to backup
-    copyFileSync(file, backupPath);
-    backedUpFiles.push(file);
-  }
-
-  return backedUpFiles;
-}
-
-/**
- * Restore XML files from backup
- */
-function restoreXmlFiles(sourceDir: string, backupDir: string): void {
-  if (!existsSync(backupDir)) {
-    return;
-  }
-
-  const xmlFiles = getXmlFiles(backupDir);
-
-  for (const backupFile of xmlFiles) {
-    const relativePath = relative(backupDir, backupFile);
-    const originalPath = join(sourceDir, relativePath);
-
-    // Restore the file
-    copyFileSync(backupFile, originalPath);
-  }
-
-  // Clean up backup directory
-  try {
-    rmSync(backupDir, { recursive: true, force: true });
-  } catch {
-    // Ignore cleanup errors
-  }
-}
-
 /**
  * Build a MuleSoft project package
  *
  * By default, builds without modifying any files.
  * Use `stripSecure: true` to strip secure:: prefixes for local development.
+ * Use `decryptSecure: true` to also decrypt secure property files with the key.
  * Use `environment: 'production'` to enforce secure:: prefixes.
+ *
+ * Transformations and Maven run in an isolated copy of the project, so the
+ * working tree is never modified. Use `inPlace: true` to build in the project itself;
+ * every modified file is then recorded in a restore journal before it is touched.
  */
 export async function packageProject(options: PackageOptions = {}): Promise<Result<PackageResult>> {
   const cwd = options.cwd ?? process.cwd();
+  let inPlace = options.inPlace ?? false;
   const configChanges: string[] = [];
-  const muleDir = join(cwd, 'src', 'main', 'mule');
-  // Use temp directory for backups to avoid cluttering the project folder
-  // Include timestamp and random suffix for concurrent build safety
-  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-  const backupDir = join(tmpdir(), `mule-build-backup-${uniqueId}`);
+  const localBuild = options.stripSecure || options.decryptSecure;
+
+  if (options.decryptSecure && options.environment === 'production') {
+    return err(new Error('Cannot decrypt secure properties for a production build'));
+  }
+
+  const secureKey = options.secureKey ?? process.env.MULE_SECURE_KEY;
+  if (options.decryptSecure && !secureKey) {
+    return err(new Error('An encryption key is required to decrypt secure properties'));
+  }
 
   // Pre-flight check
   const checkResult = await canBuild(cwd);
@@ -128,44 +86,117 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
     options.version ?? (versionResult.success && versionResult.data ? versionResult.data : '1.0.0');
 
   // Determine build mode
-  const buildMode = options.stripSecure
-    ? 'strip-secure'
-    : options.environment === 'production'
-      ? 'production'
-      : 'default';
+  const buildMode = options.decryptSecure
+    ? 'decrypt-secure'
+    : options.stripSecure
+      ? 'strip-secure'
+      : options.environment === 'production'
+        ? 'production'
+        : 'default';
 
   logger.info(`Building ${projectName} (mode: ${buildMode})...`);
 
-  // Backup pom.xml
-  const pomBackupResult = backupPom(cwd);
-  if (!pomBackupResult.success) {
-    logger.warn('Could not backup pom.xml, proceeding anyway');
+  // A copy cannot see a relative parent pom or an ancestor .mvn
+  if (!inPlace) {
+    const external = findExternalBuildInputs(cwd);
+    if (external.length > 0) {
+      logger.warn(
+        `The build reads ${external.join(' and ')} outside the project, building in place instead of in a workspace`
+      );
+      inPlace = true;
+    }
+  }
+
+  // Copy the project to an isolated workspace unless building in place
+  let buildDir = cwd;
+  if (!inPlace) {
+    logger.step('Creating build workspace...');
+    const workspaceResult = createWorkspace(cwd);
+    if (!workspaceResult.success || !workspaceResult.data) {
+      return err(workspaceResult.error ?? new Error('Failed to create build workspace'));
+    }
+    buildDir = workspaceResult.data;
+    logger.debug(`Build workspace: ${buildDir}`);
   }
 
-  // Backup XML files before modification (only if stripping)
-  let xmlFilesBackedUp = false;
-  if (options.stripSecure) {
-    logger.step('Backing up XML files...');
-    const backedUp = backupXmlFiles(muleDir, backupDir);
-    xmlFilesBackedUp = backedUp.length > 0;
-    if (xmlFilesBackedUp) {
-      logger.debug(`Backed up ${backedUp.length} XML files`);
+  const muleDir = join(buildDir, 'src', 'main', 'mule');
+  const resourcesDir = join(buildDir, 'src', 'main', 'resources');
+
+  // In-place builds journal every file before modifying it, and restore on interrupt
+  let journal: RestoreJournal | undefined;
+  let removeRestoreHandlers: (() => void) | undefined;
+  if (inPlace) {
+    const journalResult = beginJournal(cwd);
+    if (!journalResult.success || !journalResult.data) {
+      return err(journalResult.error ?? new Error('Failed to create restore journal'));
     }
+    journal = journalResult.data;
+    removeRestoreHandlers = installRestoreHandlers(journal);
   }
 
+  const recordModification = (file: string): Result<void> =>
+    journal ? recordFile(journal, file) : ok(undefined);
+  const recordCreation = (file: string): Result<void> =>
+    journal ? recordCreatedFile(journal, file) : ok(undefined);
+
   try {
-    // Clean first
-    logger.step('Cleaning previous build...');
-    const cleanResult = await mavenClean(cwd);
-    if (!cleanResult.success) {
-      logger.warn(`Maven clean failed: ${cleanResult.error?.message}, continuing anyway`);
+    // Clean first (a fresh workspace has no previous build)
+    if (inPlace) {
+      logger.step('Cleaning previous build...');
+      const cleanResult = await mavenClean(cwd);
+      if (!cleanResult.success) {
+        logger.warn(`Maven clean failed: ${cleanResult.error?.message}, continuing anyway`);
+      }
+    }
+
+    // Decrypt secure property files into plaintext copies (explicit opt-in)
+    if (options.decryptSecure && secureKey) {
+      logger.step('Decrypting secure properties (--decrypt-secure)...');
+
+      const planResult = planSecureDecryption(muleDir, resourcesDir, secureKey);
+      if (!planResult.success || !planResult.data) {
+        return err(planResult.error ?? new Error('Failed to decrypt secure properties'));
+      }
+
+      for (const change of planResult.data.changes) {
+        const relativePath = relative(buildDir, change.file);
+        const recordResult = change.created
+          ? recordCreation(change.file)
+          : recordModification(change.file);
+        if (!recordResult.success) {
+          return err(recordResult.error ?? new Error(`Failed to record ${relativePath}`));
+        }
+        writeFileSync(change.file, change.content);
+        configChanges.push(
+          change.created
+            ? `Wrote decrypted properties to ${relativePath}`
+            : `Replaced secure-properties:config in ${relativePath}`
+        );
+      }
+      configChanges.push(`Decrypted ${planResult.data.count} secure value(s)`);
+      logger.warn(
+        'The package contains decrypted secret values. Use it for local development only.'
+      );
     }
 
     // Handle stripping for local development (explicit opt-in)
-    if (options.stripSecure) {
-      logger.step('Stripping secure:: prefixes (--strip-secure)...');
+    if (localBuild) {
+      logger.step(
+        `Stripping secure:: prefixes (${options.decryptSecure ? '--decrypt-secure' : '--strip-secure'})...`
+      );
+
+      const stripTargets = existsSync(resourcesDir) ? [muleDir, resourcesDir] : muleDir;
+
+      // Record the files that will change before stripping them
+      const previewResult = await stripSecure(stripTargets, { dryRun: true, cwd: buildDir });
+      for (const file of previewResult.data?.filesProcessed ?? []) {
+        const recordResult = recordModification(join(buildDir, file));
+        if (!recordResult.success) {
+          return err(recordResult.error ?? new Error(`Failed to record ${file}`));
+        }
+      }
 
-      const stripResult = await stripSecure(muleDir, { cwd });
+      const stripResult = await stripSecure(stripTargets, { cwd: buildDir });
       if (stripResult.success && stripResult.data) {
         configChanges.push(
           `Stripped secure:: prefixes from ${stripResult.data.filesProcessed.length} files`
@@ -173,14 +204,18 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
         configChanges.push(`Total replacements: ${stripResult.data.replacementCount}`);
       }
 
-      // Remove secure-properties:config from global.xml
-      const globalXmlPath = join(muleDir, 'global.xml');
-      if (existsSync(globalXmlPath)) {
-        const content = readFileSync(globalXmlPath, 'utf-8');
+      // Remove secure-properties:config from whichever files define it
+      for (const xmlPath of getXmlFiles(muleDir)) {
+        const content = readFileSync(xmlPath, 'utf-8');
         const newContent = removeSecurePropertiesConfig(content);
         if (content !== newContent) {
-          writeFileSync(globalXmlPath, newContent);
-          configChanges.push('Removed secure-properties:config from global.xml');
+          const relativePath = relative(buildDir, xmlPath);
+          const recordResult = recordModification(xmlPath);
+          if (!recordResult.success) {
+            return err(recordResult.error ?? new Error(`Failed to record ${relativePath}`));
+          }
+          writeFileSync(xmlPath, newContent);
+          configChanges.push(`Removed secure-properties:config from ${relativePath}`);
         }
       }
     }
@@ -189,9 +224,36 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
     if (options.environment === 'production') {
       logger.step('Validating secure:: enforcement for production...');
 
-      const enforceResult = await enforceSecure(muleDir, { cwd });
-      if (enforceResult.success && enforceResult.data && !enforceResult.data.valid) {
-        const violations = enforceResult.data.violations;
+      const enforceResult = await enforceSecure(getDefaultEnforceTargets(muleDir, resourcesDir), {
+        sensitivePatterns: getSensitivePatterns(config),
+        allowlist: config.security?.allowlist,
+        secretDetection: config.security?.secretDetection,
+        cwd: buildDir,
+      });
+
+      // Findings accepted in the project's baseline do not fail the build
+      const baselineResult = loadBaseline(cwd);
+      if (!baselineResult.success) {
+        return err(baselineResult.error ?? new Error('Failed to load baseline'));
+      }
+      const gateResult =
+        enforceResult.data && baselineResult.data
+          ? applyBaseline(enforceResult.data, baselineResult.data)
+          : enforceResult.data;
+
+      if (options.sarifOutput && enforceResult.success && gateResult) {
+        const sarifPath = options.sarifOutput.startsWith('/')
+          ? options.sarifOutput
+          : join(cwd, options.sarifOutput);
+        writeFileSync(sarifPath, JSON.stringify(toSarif(gateResult), null, 2));
+        logger.info(`SARIF report written to ${relative(cwd, sarifPath)}`);
+      }
+      if (gateResult?.baselined) {
+        logger.info(`Skipped ${gateResult.baselined} known finding(s) in ${BASELINE_FILE}`);
+        configChanges.push(`Skipped ${gateResult.baselined} baselined security finding(s)`);
+      }
+      if (enforceResult.success && gateResult && !gateResult.valid) {
+        const violations = gateResult.violations;
         logger.error(`Found ${violations.length} unsecured sensitive properties:`);
         for (const v of violations.slice(0, 5)) {
           logger.error(`  ${v.file}:${v.line} - ${v.value}`);
@@ -200,7 +262,9 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
           logger.error(`  ... and ${violations.length - 5} more`);
         }
         return err(
-          new Error('Security validation failed. Use secure:: prefix for sensitive properties.')
+          new Error(
+            'Security validation failed. Use secure:: prefix for sensitive properties and encrypt their values.'
+          )
         );
       }
 
@@ -209,15 +273,19 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
 
     // Build package name
     const envSuffix = options.environment ? `-${options.environment}` : '';
-    const stripSuffix = options.stripSecure && !options.environment ? '-local' : '';
+    const stripSuffix = localBuild && !options.environment ? '-local' : '';
     const envName = `${projectName}${envSuffix}${stripSuffix}-${version}`;
-    setName(envName, cwd);
+    const pomRecordResult = recordModification(join(buildDir, 'pom.xml'));
+    if (!pomRecordResult.success) {
+      return err(pomRecordResult.error ?? new Error('Failed to record pom.xml'));
+    }
+    setName(envName, buildDir);
     configChanges.push(`Set package name to: ${envName}`);
 
     // Run Maven build
     logger.step('Running Maven build...');
     const buildResult = await mavenBuild({
-      cwd,
+      cwd: buildDir,
       profile: profile.mavenProfile,
       withSource: options.withSource ?? profile.includeSource ?? false,
       skipTests: options.skipTests ?? false,
@@ -228,7 +296,7 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
     }
 
     // Find the built JAR
-    const jarResult = findBuiltJar(cwd);
+    const jarResult = findBuiltJar(buildDir);
     if (!jarResult.success || !jarResult.data) {
       return err(jarResult.error ?? new Error('Could not find built JAR'));
     }
@@ -240,13 +308,11 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const finalJarName = `${projectName}${envSuffix}${stripSuffix}-${version}-${timestamp}.jar`;
 
-    // Determine output directory (custom or default target/)
+    // Determine output directory (custom or default target/ of the project)
     const outputDir = options.outputDir ?? join(cwd, 'target');
 
-    // Ensure output directory exists
-    if (options.outputDir) {
-      mkdirSync(outputDir, { recursive: true });
-    }
+    // Ensure output directory exists (workspace builds leave the project's target/ alone)
+    mkdirSync(outputDir, { recursive: true });
 
     const finalJarPath = join(outputDir, finalJarName);
 
@@ -264,6 +330,7 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
     };
 
     // Write deployment info file
+    mkdirSync(join(cwd, 'target'), { recursive: true });
     const infoPath = join(cwd, 'target', 'deployment-info.txt');
     const infoContent = [
       'Package Information:',
@@ -291,23 +358,21 @@ export async function packageProject(options: PackageOptions = {}): Promise<Resu
       deploymentInfo,
     });
   } finally {
-    // Restore pom.xml
-    restorePom(cwd);
-
-    // Clean up pom.xml backup
-    try {
-      const pomBackupPath = join(cwd, 'pom.xml.bak');
-      if (existsSync(pomBackupPath)) {
-        unlinkSync(pomBackupPath);
-      }
-    } catch {
-      // Ignore cleanup errors
-    }
+    if (journal) {
+      removeRestoreHandlers?.();
 
-    // Restore XML files if they were backed up
-    if (xmlFilesBackedUp) {
-      logger.step('Restoring XML files...');
-      restoreXmlFiles(muleDir, backupDir);
+      // Restore every file modified in the project
+      if (journal.files.length > 0 || journal.created.length > 0) {
+        logger.step('Restoring modified files...');
+      }
+      const restoreResult = restoreJournal(journal);
+      if (!restoreResult.success) {
+        logger.error(
+          `${restoreResult.error?.message}. Run 'mule-build restore' to recover the project files.`
+        );
+      }
+    } else {
+      removeWorkspace(buildDir);
     }
   }
 }
@@ -0,0 +1,39 @@
+/**
+ * Pom API
+ *
+ * Programmatic interface for validating the Mule build configuration in pom.xml.
+ */
+
+import { Result, ok, err, PomCheckOptions, PomCheckResult } from '../types/index.js';
+import { loadPom } from '../engine/PomParser.js';
+import { checkPomModel } from '../engine/PomChecker.js';
+import { loadConfigFile } from '../config/ConfigLoader.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Check pom.xml for Mule-specific build configuration problems
+ */
+export async function checkPom(options: PomCheckOptions = {}): Promise<Result<PomCheckResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
+  }
+
+  // Only profiles the project configured are errors; built-in ones are warnings
+  const configResult = loadConfigFile(cwd);
+  if (!configResult.success || !configResult.data) {
+    return err(configResult.error ?? new Error('Failed to load configuration'));
+  }
+
+  const issues = checkPomModel(modelResult.data, configResult.data);
+  const errors = issues.filter((i) => i.severity === 'error');
+
+  for (const issue of issues) {
+    const log = issue.severity === 'error' ? logger.error : logger.warn;
+    log(`  pom.xml:${issue.line ?? '?'} - ${issue.message} [${issue.rule}]`);
+  }
+
+  return ok({ valid: errors.length === 0, issues });
+}
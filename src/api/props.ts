@@ -0,0 +1,94 @@
+/**
+ * Props API
+ *
+ * Programmatic interface for checking property references against property files.
+ */
+
+import {
+  Result,
+  ok,
+  err,
+  PropsCheckOptions,
+  PropsCheckResult,
+  PropsUnusedOptions,
+  PropsUnusedResult,
+} from '../types/index.js';
+import {
+  checkMissingProperties,
+  findUnusedProperties as findUnusedPropertiesEngine,
+} from '../engine/PropertyAnalyzer.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Check that every referenced property exists for an environment
+ */
+export async function checkProperties(
+  options: PropsCheckOptions
+): Promise<Result<PropsCheckResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const result = checkMissingProperties(options.env, cwd);
+  if (!result.success || !result.data) {
+    return err(result.error ?? new Error('Property check failed'));
+  }
+
+  const data = result.data;
+
+  logger.info(`Checked ${data.referencesChecked} references for environment '${data.env}'`);
+  for (const file of data.propertyFiles) {
+    logger.debug(`Using ${file}`);
+  }
+
+  if (data.valid) {
+    logger.success('All referenced properties are defined');
+  } else {
+    logger.error(`Found ${data.missing.length} missing properties:`);
+    for (const m of data.missing) {
+      const where = m.secure ? 'secure properties file' : 'properties files';
+      logger.error(`  ${m.file}:${m.line} - ${m.value} (not in ${where})`);
+    }
+  }
+
+  return ok(data);
+}
+
+/**
+ * Find property keys that are never referenced
+ */
+export async function findUnusedProperties(
+  options: PropsUnusedOptions = {}
+): Promise<Result<PropsUnusedResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const result = findUnusedPropertiesEngine(cwd, { maxUnused: options.maxUnused });
+  if (!result.success || !result.data) {
+    return err(result.error ?? new Error('Unused property check failed'));
+  }
+
+  const data = result.data;
+
+  logger.info(`Checked ${data.keysChecked} keys in ${data.propertyFiles.length} files`);
+  if (data.undeclaredFiles.length > 0) {
+    logger.warn(
+      `${data.undeclaredFiles.length} property file(s) not declared by any configuration-properties element:`
+    );
+    for (const file of data.undeclaredFiles) {
+      logger.warn(`  ${file}`);
+    }
+  }
+
+  if (data.unused.length === 0) {
+    logger.success('All property keys are referenced');
+  } else {
+    const log = data.valid ? logger.warn : logger.error;
+    log(`Found ${data.unused.length} unused property keys:`);
+    for (const u of data.unused) {
+      log(`  ${u.file}:${u.line} - ${u.property}`);
+    }
+    if (!data.valid) {
+      logger.error(`Unused keys exceed the maximum of ${data.maxUnused}`);
+    }
+  }
+
+  return ok(data);
+}
@@ -60,7 +60,7 @@ export async function releaseVersion(options: ReleaseOptions): Promise<Result<Re
     return err(updateResult.error ?? new Error('Failed to update version in pom.xml'));
   }
 
-  logger.success(`Updated pom.xml version to ${newVersion}`);
+  logger.success(`Updated version to ${newVersion} in ${updateResult.data}`);
 
   // Build production package
   logger.step('Building production package...');
@@ -0,0 +1,42 @@
+/**
+ * Restore API
+ *
+ * Programmatic interface for recovering project files left modified by an
+ * interrupted in-place build.
+ */
+
+import { Result, ok, err, RestoreOptions, RestoreResult } from '../types/index.js';
+import { findPendingJournals, restoreJournal } from '../engine/RestoreJournal.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Restore files from every journal left behind by an unfinished build
+ */
+export async function restoreBuild(options: RestoreOptions = {}): Promise<Result<RestoreResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  // Newest first, so the oldest backup (the original file) is copied back last
+  const journals = findPendingJournals(cwd).reverse();
+  if (journals.length === 0) {
+    logger.info('Nothing to restore');
+    return ok({ journals: 0, filesRestored: [] });
+  }
+
+  const filesRestored = new Set<string>();
+  for (const journal of journals) {
+    logger.step(`Restoring build started at ${journal.startedAt}...`);
+
+    const result = restoreJournal(journal);
+    if (!result.success || !result.data) {
+      return err(result.error ?? new Error(`Failed to restore ${journal.dir}`));
+    }
+
+    for (const file of result.data) {
+      logger.debug(`Restored ${file}`);
+      filesRestored.add(file);
+    }
+  }
+
+  logger.success(`Restored ${filesRestored.size} file(s) from ${journals.length} build(s)`);
+  return ok({ journals: journals.length, filesRestored: [...filesRestored] });
+}
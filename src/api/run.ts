@@ -24,9 +24,11 @@ export async function runLocal(options: RunOptions = {}): Promise<Result<RunResu
 
   logger.info('Building and deploying to local Mule runtime...');
 
-  // Build - use options for stripSecure and skipTests (both default to false/undefined)
+  // Build - use options for stripSecure, decryptSecure and skipTests (default to false/undefined)
   const packageResult = await packageProject({
     stripSecure: options.stripSecure,
+    decryptSecure: options.decryptSecure,
+    secureKey: options.secureKey,
     skipTests: options.skipTests,
     cwd,
   });
@@ -0,0 +1,117 @@
+/**
+ * Secure API
+ *
+ * Programmatic interface for Mule Secure Properties encryption.
+ */
+
+import { join, relative } from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { Result, ok, err, SecureOptions, SecureResult } from '../types/index.js';
+import {
+  encryptValue,
+  decryptValue,
+  encryptFileContent,
+  decryptFileContent,
+  wrapEncrypted,
+  SecureCipherOptions,
+} from '../engine/SecureProperties.js';
+import { getPropertyFileFormat } from '../engine/PropertyFileParser.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Encrypt a value or every value in a property file
+ */
+export async function encryptSecure(options: SecureOptions): Promise<Result<SecureResult>> {
+  return processSecure(options, 'encrypt');
+}
+
+/**
+ * Decrypt a value or every ![...] value in a property file
+ */
+export async function decryptSecure(options: SecureOptions): Promise<Result<SecureResult>> {
+  return processSecure(options, 'decrypt');
+}
+
+/**
+ * Shared implementation for encrypt and decrypt
+ */
+async function processSecure(
+  options: SecureOptions,
+  operation: 'encrypt' | 'decrypt'
+): Promise<Result<SecureResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  if (!options.key) {
+    return err(new Error('An encryption key is required'));
+  }
+
+  if ((options.value === undefined) === (options.file === undefined)) {
+    return err(new Error('Specify exactly one of value or file'));
+  }
+
+  const cipher: SecureCipherOptions = {
+    key: options.key,
+    algorithm: options.algorithm,
+    mode: options.mode,
+    useRandomIVs: options.useRandomIVs,
+  };
+
+  // Single value
+  if (options.value !== undefined) {
+    if (operation === 'encrypt') {
+      const result = encryptValue(options.value, cipher);
+      if (!result.success || !result.data) {
+        return err(result.error ?? new Error('Encryption failed'));
+      }
+      return ok({ value: wrapEncrypted(result.data), count: 1 });
+    }
+
+    const result = decryptValue(options.value, cipher);
+    if (!result.success || result.data === undefined) {
+      return err(result.error ?? new Error('Decryption failed'));
+    }
+    return ok({ value: result.data, count: 1 });
+  }
+
+  // Whole file
+  const target = options.file;
+  if (target === undefined) {
+    return err(new Error('Specify exactly one of value or file'));
+  }
+  const file = target.startsWith('/') ? target : join(cwd, target);
+  if (!existsSync(file)) {
+    return err(new Error(`File not found: ${file}`));
+  }
+
+  const format = getPropertyFileFormat(file);
+  if (!format) {
+    return err(new Error(`Unsupported file type: ${file}. Use a .properties or .yaml file.`));
+  }
+
+  try {
+    const content = readFileSync(file, 'utf-8');
+    const result =
+      operation === 'encrypt'
+        ? encryptFileContent(content, format, cipher)
+        : decryptFileContent(content, format, cipher);
+
+    if (!result.success || !result.data) {
+      return err(result.error ?? new Error(`Failed to ${operation} ${file}`));
+    }
+
+    const outputFile = options.output
+      ? options.output.startsWith('/')
+        ? options.output
+        : join(cwd, options.output)
+      : file;
+
+    writeFileSync(outputFile, result.data.result);
+    logger.success(
+      `${operation === 'encrypt' ? 'Encrypted' : 'Decrypted'} ${result.data.count} value(s) in ${relative(cwd, outputFile)}`
+    );
+
+    return ok({ file: outputFile, count: result.data.count });
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+}
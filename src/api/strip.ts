@@ -17,7 +17,7 @@ export async function stripSecure(options: StripOptions = {}): Promise<Result<St
   const cwd = options.cwd ?? process.cwd();
 
   // Determine target
-  let target: string;
+  let target: string | string[];
 
   if (options.file) {
     target = options.file.startsWith('/') ? options.file : join(cwd, options.file);
@@ -30,11 +30,13 @@ export async function stripSecure(options: StripOptions = {}): Promise<Result<St
       return err(new Error(`Directory not found: ${target}`));
     }
   } else {
-    // Default to src/main/mule
-    target = join(cwd, 'src', 'main', 'mule');
-    if (!existsSync(target)) {
-      return err(new Error(`Default directory not found: ${target}`));
+    // Default to src/main/mule plus DataWeave modules in src/main/resources
+    const muleDir = join(cwd, 'src', 'main', 'mule');
+    if (!existsSync(muleDir)) {
+      return err(new Error(`Default directory not found: ${muleDir}`));
     }
+    const resourcesDir = join(cwd, 'src', 'main', 'resources');
+    target = existsSync(resourcesDir) ? [muleDir, resourcesDir] : muleDir;
   }
 
   if (options.dryRun) {
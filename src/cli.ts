@@ -4,6 +4,7 @@
  * Command-line interface for MuleSoft build automation.
  */
 
+import { writeFileSync } from 'fs';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { packageProject } from './api/package.js';
@@ -11,8 +12,30 @@ import { runLocal } from './api/run.js';
 import { releaseVersion } from './api/release.js';
 import { stripSecure } from './api/strip.js';
 import { enforceSecure } from './api/enforce.js';
+import { encryptSecure, decryptSecure } from './api/secure.js';
+import { checkProperties, findUnusedProperties } from './api/props.js';
+import { restoreBuild } from './api/restore.js';
+import { installHooks } from './api/hooks.js';
+import { getDependencies, setDependencyVersion, upgradeDependencies } from './api/deps.js';
+import { checkPom } from './api/pom.js';
 import { setLogLevel } from './utils/logger.js';
-import { BumpType } from './types/index.js';
+import { formatDiff } from './utils/diff.js';
+import { promptSecret } from './utils/prompt.js';
+import {
+  formatEnforceReport,
+  formatStripReport,
+  depsToText,
+  ENFORCE_REPORT_FORMATS,
+  STRIP_REPORT_FORMATS,
+} from './reporters/index.js';
+import {
+  BumpType,
+  SecureAlgorithm,
+  SecureMode,
+  ReportFormat,
+  Result,
+  DepsUpdateResult,
+} from './types/index.js';
 
 // Package info
 const VERSION = '1.0.0';
@@ -41,11 +64,17 @@ export function createProgram(): Command {
     .command('package')
     .description('Build the MuleSoft application package')
     .option('--strip-secure', 'Strip secure:: prefixes for local development (explicit opt-in)')
+    .option(
+      '--decrypt-secure',
+      'Decrypt secure properties for local development (key from MULE_SECURE_KEY or prompt)'
+    )
     .option('-e, --env <environment>', 'Target environment: production (enforces secure::)')
     .option('-s, --with-source', 'Include source code in package (Studio importable)')
     .option('-S, --skip-tests', 'Skip MUnit tests')
     .option('--version <version>', 'Override version')
     .option('-o, --output <path>', 'Output directory for the built JAR (defaults to target/)')
+    .option('--sarif <file>', 'With -e production, write security findings as SARIF to this file')
+    .option('--in-place', 'Build in the project directory instead of an isolated workspace copy')
     .action(async (options) => {
       // Validate environment if provided
       if (options.env && options.env !== 'production') {
@@ -60,14 +89,22 @@ export function createProgram(): Command {
         console.error(chalk.red('Cannot use --strip-secure with -e production'));
         process.exit(1);
       }
+      if (options.decryptSecure && options.env === 'production') {
+        console.error(chalk.red('Cannot use --decrypt-secure with -e production'));
+        process.exit(1);
+      }
 
       const result = await packageProject({
         environment: options.env,
         stripSecure: options.stripSecure,
+        decryptSecure: options.decryptSecure,
+        secureKey: options.decryptSecure ? await resolveSecureKey() : undefined,
         withSource: options.withSource,
         skipTests: options.skipTests,
         version: options.version,
         outputDir: options.output,
+        sarifOutput: options.sarif,
+        inPlace: options.inPlace,
       });
 
       if (!result.success) {
@@ -85,12 +122,18 @@ export function createProgram(): Command {
     .option('-d, --debug', 'Enable remote debugging on port 5005')
     .option('-c, --clean', 'Run mvn clean before building')
     .option('--strip-secure', 'Strip secure:: prefixes for local development')
+    .option(
+      '--decrypt-secure',
+      'Run with decrypted secure properties (key from MULE_SECURE_KEY or prompt)'
+    )
     .option('-S, --skip-tests', 'Skip MUnit tests')
     .action(async (options) => {
       const result = await runLocal({
         debug: options.debug,
         clean: options.clean,
         stripSecure: options.stripSecure,
+        decryptSecure: options.decryptSecure,
+        secureKey: options.decryptSecure ? await resolveSecureKey() : undefined,
         skipTests: options.skipTests,
       });
 
@@ -136,11 +179,23 @@ export function createProgram(): Command {
   // Strip command
   program
     .command('strip')
-    .description('Strip secure:: prefixes from XML files')
+    .description('Strip secure:: prefixes from XML and DataWeave files')
     .option('-f, --file <path>', 'Process single file')
-    .option('-d, --dir <path>', 'Process all XML files in directory (default: src/main/mule)')
+    .option(
+      '-d, --dir <path>',
+      'Process all XML and DataWeave files in directory (default: src/main/mule, src/main/resources)'
+    )
     .option('--dry-run', 'Show changes without modifying files')
+    .option('--format <format>', 'Report format: text | json | junit', 'text')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
     .action(async (options) => {
+      const format = validateReportFormat(options.format, STRIP_REPORT_FORMATS);
+      const reportToStdout = format !== 'text' && !options.output;
+
+      if (reportToStdout) {
+        setLogLevel('silent');
+      }
+
       const result = await stripSecure({
         file: options.file,
         directory: options.dir,
@@ -152,7 +207,18 @@ export function createProgram(): Command {
         process.exit(1);
       }
 
+      if (result.data && (format !== 'text' || options.output)) {
+        writeReport(
+          formatStripReport(result.data, format as Exclude<ReportFormat, 'sarif'>),
+          options.output
+        );
+        if (reportToStdout) return;
+      }
+
       if (options.dryRun) {
+        if (result.data?.changes.length) {
+          console.log(`\n${formatDiff(result.data.changes)}`);
+        }
         console.log(chalk.yellow('\nDry run complete. No files were modified.'));
       } else {
         console.log(chalk.green('\n✓ Secure prefixes stripped successfully'));
@@ -164,11 +230,108 @@ export function createProgram(): Command {
     .command('enforce')
     .description('Check for unsecured sensitive properties')
     .option('-f, --file <path>', 'Check single file')
-    .option('-d, --dir <path>', 'Check all XML files in directory (default: src/main/mule)')
+    .option(
+      '-d, --dir <path>',
+      'Check all XML and property files in directory (default: src/main/mule, src/main/resources)'
+    )
+    .option('--fix', 'Add missing secure:: prefixes to sensitive property references')
+    .option('--dry-run', 'With --fix, show changes without modifying files')
+    .option('--history', 'Scan every file version in git history for committed secrets')
+    .option('--since <ref>', 'With --history, only scan commits after this ref')
+    .option('--staged', 'Check only staged changes, as they will be committed')
+    .option('--changed-since <ref>', 'Check only files changed since this ref')
+    .option('--update-baseline', 'Accept all current findings in .mule-build/enforce-baseline.json')
+    .option('--no-baseline', 'Report findings recorded in the baseline too')
+    .option(
+      '--patterns <patterns>',
+      'Comma-separated sensitive patterns, replacing the defaults and mule-build.yaml patterns'
+    )
+    .option(
+      '--extra-patterns <patterns>',
+      'Comma-separated sensitive patterns added to the defaults and mule-build.yaml patterns'
+    )
+    .option('--format <format>', 'Report format: text | json | junit | sarif', 'text')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
     .action(async (options) => {
+      if (options.dryRun && !options.fix) {
+        console.error(chalk.red('--dry-run can only be used with --fix'));
+        process.exit(1);
+      }
+
+      if (options.since && !options.history) {
+        console.error(chalk.red('--since can only be used with --history'));
+        process.exit(1);
+      }
+
+      if (options.history && (options.fix || options.file || options.updateBaseline)) {
+        console.error(
+          chalk.red('--history cannot be used with --fix, --file or --update-baseline')
+        );
+        process.exit(1);
+      }
+
+      if (options.staged && options.changedSince) {
+        console.error(chalk.red('--staged and --changed-since cannot be used together'));
+        process.exit(1);
+      }
+
+      if (
+        (options.staged || options.changedSince) &&
+        (options.history || options.file || options.updateBaseline)
+      ) {
+        console.error(
+          chalk.red(
+            '--staged and --changed-since cannot be used with --history, --file or --update-baseline'
+          )
+        );
+        process.exit(1);
+      }
+
+      if (options.staged && options.fix) {
+        console.error(chalk.red('--fix cannot be used with --staged'));
+        process.exit(1);
+      }
+
+      if (options.updateBaseline && (options.file || options.dir)) {
+        console.error(chalk.red('--update-baseline cannot be used with --file or --dir'));
+        process.exit(1);
+      }
+
+      if (options.updateBaseline && !options.baseline) {
+        console.error(chalk.red('--update-baseline cannot be used with --no-baseline'));
+        process.exit(1);
+      }
+
+      const format = validateReportFormat(options.format, ENFORCE_REPORT_FORMATS);
+      const reportToStdout = format !== 'text' && !options.output;
+
+      if (reportToStdout) {
+        setLogLevel('silent');
+      }
+
+      if (options.patterns && options.extraPatterns) {
+        console.error(chalk.red('--patterns and --extra-patterns cannot be used together'));
+        process.exit(1);
+      }
+
+      const patterns: string | undefined = options.patterns ?? options.extraPatterns;
+
       const result = await enforceSecure({
         file: options.file,
         directory: options.dir,
+        fix: options.fix,
+        dryRun: options.dryRun,
+        history: options.history,
+        since: options.since,
+        staged: options.staged,
+        changedSince: options.changedSince,
+        updateBaseline: options.updateBaseline,
+        baseline: options.baseline,
+        sensitivePatterns: patterns
+          ?.split(',')
+          .map((p) => p.trim())
+          .filter(Boolean),
+        sensitivePatternsMode: options.patterns ? 'replace' : 'extend',
       });
 
       if (!result.success) {
@@ -176,7 +339,28 @@ export function createProgram(): Command {
         process.exit(1);
       }
 
-      if (result.data?.valid) {
+      if (result.data && (format !== 'text' || options.output)) {
+        writeReport(formatEnforceReport(result.data, format), options.output);
+        if (reportToStdout) {
+          process.exit(result.data.valid ? 0 : 1);
+        }
+      }
+
+      if (options.dryRun && result.data?.fixes?.changes.length) {
+        console.log(`\n${formatDiff(result.data.fixes.changes)}`);
+        console.log(chalk.yellow('\nDry run complete. No files were modified.'));
+      }
+
+      if (options.history) {
+        if (result.data?.valid) {
+          console.log(chalk.green('\n✓ No committed secrets found in git history'));
+        } else {
+          console.log(chalk.red(`\n✗ Found ${result.data?.violations.length} committed secrets`));
+          process.exit(1);
+        }
+      } else if (options.updateBaseline) {
+        console.log(chalk.green(`\n✓ Baseline updated (${result.data?.baselined ?? 0} findings)`));
+      } else if (result.data?.valid) {
         console.log(chalk.green('\n✓ All sensitive properties are properly secured'));
       } else {
         console.log(chalk.red(`\n✗ Found ${result.data?.violations.length} unsecured properties`));
@@ -184,6 +368,285 @@ export function createProgram(): Command {
       }
     });
 
+  // Secure command
+  const secure = program
+    .command('secure')
+    .description('Encrypt or decrypt Mule Secure Properties values');
+
+  for (const operation of ['encrypt', 'decrypt'] as const) {
+    secure
+      .command(operation)
+      .description(
+        operation === 'encrypt'
+          ? 'Encrypt a value or every value in a .properties/.yaml file'
+          : 'Decrypt a ![...] value or every encrypted value in a .properties/.yaml file'
+      )
+      .option('--value <value>', `Value to ${operation}`)
+      .option('-f, --file <path>', `Property file to ${operation}`)
+      .option('-o, --output <path>', 'Write the processed file here instead of in place')
+      .option('-k, --key <key>', 'Encryption key (defaults to MULE_SECURE_KEY env var)')
+      .option('-a, --algorithm <algorithm>', 'Algorithm: AES | Blowfish', 'AES')
+      .option('-m, --mode <mode>', 'Mode: CBC | CFB | ECB', 'CBC')
+      .option('--random-iv', 'Use random IVs (useRandomIVs="true")')
+      .action(async (options) => {
+        const algorithm = options.algorithm as SecureAlgorithm;
+        if (!['AES', 'Blowfish'].includes(algorithm)) {
+          console.error(chalk.red(`Invalid algorithm: ${algorithm}. Use 'AES' or 'Blowfish'.`));
+          process.exit(1);
+        }
+
+        const mode = options.mode as SecureMode;
+        if (!['CBC', 'CFB', 'ECB'].includes(mode)) {
+          console.error(chalk.red(`Invalid mode: ${mode}. Use 'CBC', 'CFB' or 'ECB'.`));
+          process.exit(1);
+        }
+
+        const key = options.key ?? process.env.MULE_SECURE_KEY;
+        if (!key) {
+          console.error(chalk.red('No key provided. Use --key or set MULE_SECURE_KEY.'));
+          process.exit(1);
+        }
+
+        const secureOptions = {
+          key,
+          value: options.value,
+          file: options.file,
+          output: options.output,
+          algorithm,
+          mode,
+          useRandomIVs: options.randomIv,
+        };
+        const result =
+          operation === 'encrypt'
+            ? await encryptSecure(secureOptions)
+            : await decryptSecure(secureOptions);
+
+        if (!result.success) {
+          const label = operation === 'encrypt' ? 'Encryption' : 'Decryption';
+          console.error(chalk.red(`${label} failed: ${result.error?.message}`));
+          process.exit(1);
+        }
+
+        if (result.data?.value !== undefined) {
+          console.log(result.data.value);
+        } else {
+          console.log(chalk.green(`\n✓ Processed ${result.data?.count} value(s)`));
+        }
+      });
+  }
+
+  // Props command
+  const props = program.command('props').description('Analyze property references and files');
+
+  props
+    .command('check')
+    .description('Verify every referenced property exists in the environment property files')
+    .requiredOption('--env <name>', 'Environment name used in property file paths (e.g. ${env})')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options) => {
+      if (options.json) {
+        setLogLevel('silent');
+      }
+
+      const result = await checkProperties({ env: options.env });
+
+      if (!result.success) {
+        console.error(chalk.red(`Props check failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result.data, null, 2));
+      } else if (result.data?.valid) {
+        console.log(chalk.green(`\n✓ All referenced properties are defined for '${options.env}'`));
+      } else {
+        console.log(chalk.red(`\n✗ Found ${result.data?.missing.length} missing properties`));
+      }
+
+      if (!result.data?.valid) {
+        process.exit(1);
+      }
+    });
+
+  props
+    .command('unused')
+    .description('List property keys that no Mule XML or DataWeave file references')
+    .option('--json', 'Print the result as JSON')
+    .option('--max-unused <count>', 'Fail when more unused keys than this are found')
+    .action(async (options) => {
+      const maxUnused =
+        options.maxUnused !== undefined ? parseInt(options.maxUnused, 10) : undefined;
+      if (maxUnused !== undefined && (isNaN(maxUnused) || maxUnused < 0)) {
+        console.error(chalk.red(`Invalid --max-unused: ${options.maxUnused}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        setLogLevel('silent');
+      }
+
+      const result = await findUnusedProperties({ maxUnused });
+
+      if (!result.success) {
+        console.error(chalk.red(`Unused property check failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result.data, null, 2));
+      } else if (result.data?.unused.length === 0) {
+        console.log(chalk.green('\n✓ All property keys are referenced'));
+      } else {
+        const color = result.data?.valid ? chalk.yellow : chalk.red;
+        console.log(color(`\n✗ Found ${result.data?.unused.length} unused property keys`));
+      }
+
+      if (!result.data?.valid) {
+        process.exit(1);
+      }
+    });
+
+  // Deps command
+  const deps = program.command('deps').description('Inspect pom.xml dependencies');
+
+  deps
+    .command('list')
+    .description(
+      'List connectors, modules, libraries and the mule-maven-plugin with resolved versions'
+    )
+    .option(
+      '--catalog <path>',
+      'Version catalog to check against (default: mule-build-catalog.yaml)'
+    )
+    .option('--json', 'Print the result as JSON')
+    .action(async (options) => {
+      if (options.json) {
+        setLogLevel('silent');
+      }
+
+      const result = await getDependencies({ catalog: options.catalog });
+
+      if (!result.success) {
+        console.error(chalk.red(`Deps list failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result.data, null, 2));
+      } else if (result.data) {
+        console.log(`\n${depsToText(result.data)}`);
+        if (!result.data.valid) {
+          console.log(chalk.red(`✗ Found ${result.data.blocked} blocked dependency version(s)`));
+        }
+      }
+
+      if (!result.data?.valid) {
+        process.exit(1);
+      }
+    });
+
+  deps
+    .command('set')
+    .description('Set a dependency or plugin version wherever pom.xml defines it')
+    .argument('<coordinates>', 'Artifact as groupId:artifactId')
+    .argument('<version>', 'Version to set')
+    .option('--dry-run', 'Show changes without modifying pom.xml')
+    .action(async (coordinates, version, options) => {
+      const result = await setDependencyVersion({
+        coordinates,
+        version,
+        dryRun: options.dryRun,
+      });
+      printDepsUpdate(result, 'Deps set');
+    });
+
+  deps
+    .command('upgrade')
+    .description('Upgrade outdated and blocked dependencies to the catalog version')
+    .option('--catalog <path>', 'Version catalog (default: mule-build-catalog.yaml)')
+    .option('--dry-run', 'Show changes without modifying pom.xml')
+    .action(async (options) => {
+      const result = await upgradeDependencies({
+        catalog: options.catalog,
+        dryRun: options.dryRun,
+      });
+      printDepsUpdate(result, 'Deps upgrade');
+    });
+
+  // Pom command
+  const pom = program.command('pom').description('Validate pom.xml');
+
+  pom
+    .command('check')
+    .description(
+      'Check packaging, mule-maven-plugin, runtime properties, repositories and Maven profiles'
+    )
+    .option('--json', 'Print the result as JSON')
+    .action(async (options) => {
+      if (options.json) {
+        setLogLevel('silent');
+      }
+
+      const result = await checkPom();
+
+      if (!result.success) {
+        console.error(chalk.red(`Pom check failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result.data, null, 2));
+      } else if (result.data?.valid) {
+        console.log(chalk.green('\n✓ pom.xml build configuration is valid'));
+      } else {
+        const errors = result.data?.issues.filter((i) => i.severity === 'error').length;
+        console.log(chalk.red(`\n✗ Found ${errors} problem(s) in pom.xml`));
+      }
+
+      if (!result.data?.valid) {
+        process.exit(1);
+      }
+    });
+
+  // Restore command
+  program
+    .command('restore')
+    .description('Restore project files left modified by an interrupted in-place build')
+    .action(async () => {
+      const result = await restoreBuild();
+
+      if (!result.success) {
+        console.error(chalk.red(`Restore failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      if (result.data?.journals) {
+        console.log(chalk.green(`\n✓ Restored ${result.data.filesRestored.length} file(s)`));
+      }
+    });
+
+  // Hooks command
+  const hooks = program.command('hooks').description('Manage git hooks');
+
+  hooks
+    .command('install')
+    .description('Install a pre-commit hook running enforce --staged')
+    .option('--force', 'Replace an existing pre-commit hook')
+    .action(async (options) => {
+      const result = await installHooks({ force: options.force });
+
+      if (!result.success) {
+        console.error(chalk.red(`Hook install failed: ${result.error?.message}`));
+        process.exit(1);
+      }
+
+      console.log(
+        chalk.green(
+          `\n✓ ${result.data?.replaced ? 'Replaced' : 'Installed'} pre-commit hook: ${result.data?.hookPath}`
+        )
+      );
+    });
+
   // MCP Server command
   program
     .command('mcp')
@@ -198,6 +661,69 @@ export function createProgram(): Command {
   return program;
 }
 
+/**
+ * Get the key for --decrypt-secure from MULE_SECURE_KEY, or prompt for it
+ * Exits when no key is available.
+ */
+async function resolveSecureKey(): Promise<string> {
+  const key =
+    process.env.MULE_SECURE_KEY ??
+    (process.stdin.isTTY ? await promptSecret('Secure properties key: ') : undefined);
+
+  if (!key) {
+    console.error(chalk.red('No key provided. Set MULE_SECURE_KEY or run in a terminal.'));
+    process.exit(1);
+  }
+
+  return key;
+}
+
+/**
+ * Print the outcome of deps set / deps upgrade
+ */
+function printDepsUpdate(result: Result<DepsUpdateResult>, command: string): void {
+  if (!result.success || !result.data) {
+    console.error(chalk.red(`${command} failed: ${result.error?.message}`));
+    process.exit(1);
+  }
+
+  const { updates, changes, dryRun } = result.data;
+
+  if (dryRun) {
+    if (changes.length > 0) {
+      console.log(`\n${formatDiff(changes)}`);
+    }
+    console.log(chalk.yellow('\nDry run complete. pom.xml was not modified.'));
+  } else if (updates.length > 0) {
+    console.log(chalk.green(`\n✓ Updated ${updates.length} version(s) in pom.xml`));
+  } else {
+    console.log(chalk.green('\n✓ All versions are already up to date'));
+  }
+}
+
+/**
+ * Validate a --format value against the formats a command supports
+ */
+function validateReportFormat(format: string, supported: ReportFormat[]): ReportFormat {
+  if (!supported.includes(format as ReportFormat)) {
+    console.error(chalk.red(`Invalid format: ${format}. Use one of: ${supported.join(', ')}`));
+    process.exit(1);
+  }
+  return format as ReportFormat;
+}
+
+/**
+ * Write a report to a file, or to stdout when no file is given
+ */
+function writeReport(report: string, output: string | undefined): void {
+  if (output) {
+    writeFileSync(output, report);
+    console.log(chalk.green(`✓ Report written to ${output}`));
+  } else {
+    process.stdout.write(report);
+  }
+}
+
 /**
  * Run the CLI
  */
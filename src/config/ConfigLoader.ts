@@ -7,36 +7,61 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { parse } from 'yaml';
-import { Result, ok, err, MuleBuildConfig, ProfileConfig } from '../types/index.js';
+import {
+  Result,
+  ok,
+  err,
+  MuleBuildConfig,
+  ProfileConfig,
+  SecurityConfig,
+  SecretDetectionConfig,
+  SensitivePatternsConfig,
+} from '../types/index.js';
 import { DEFAULT_CONFIG, getDefaultProfile } from './defaults.js';
 import { getProjectName } from '../engine/PomParser.js';
+import { isRegexEntry, DEFAULT_SENSITIVE_PATTERNS } from '../engine/XmlProcessor.js';
 
 const CONFIG_FILENAME = 'mule-build.yaml';
 
 /**
- * Load configuration from mule-build.yaml or use defaults
+ * Read mule-build.yaml as written, without defaults
+ * Returns an empty configuration when the project has no config file.
  */
-export function loadConfig(cwd: string = process.cwd()): Result<MuleBuildConfig> {
+export function loadConfigFile(cwd: string = process.cwd()): Result<MuleBuildConfig> {
   const configPath = join(cwd, CONFIG_FILENAME);
+  if (!existsSync(configPath)) {
+    return ok({});
+  }
 
-  // Start with defaults
-  let config: MuleBuildConfig = { ...DEFAULT_CONFIG };
+  try {
+    const content = readFileSync(configPath, 'utf-8');
+    return ok((parse(content) as MuleBuildConfig) ?? {});
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to parse ${CONFIG_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
 
-  // Try to load config file
-  if (existsSync(configPath)) {
-    try {
-      const content = readFileSync(configPath, 'utf-8');
-      const fileConfig = parse(content) as MuleBuildConfig;
+/**
+ * Load configuration from mule-build.yaml or use defaults
+ */
+export function loadConfig(cwd: string = process.cwd()): Result<MuleBuildConfig> {
+  const fileResult = loadConfigFile(cwd);
+  if (!fileResult.success || !fileResult.data) {
+    return err(fileResult.error ?? new Error(`Failed to read ${CONFIG_FILENAME}`));
+  }
 
-      // Merge with defaults
-      config = mergeConfig(config, fileConfig);
-    } catch (error) {
-      return err(
-        new Error(
-          `Failed to parse ${CONFIG_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
-        )
-      );
-    }
+  // Merge with defaults
+  const config = mergeConfig({ ...DEFAULT_CONFIG }, fileResult.data);
+
+  const securityResult = validateSecurityConfig(config.security);
+  if (!securityResult.success) {
+    return err(
+      new Error(`Invalid ${CONFIG_FILENAME}: ${securityResult.error?.message ?? 'security'}`)
+    );
   }
 
   // Auto-detect project name if not set
@@ -64,9 +89,152 @@ function mergeConfig(base: MuleBuildConfig, override: MuleBuildConfig): MuleBuil
       ...base.profiles,
       ...override.profiles,
     },
+    security: {
+      ...base.security,
+      ...override.security,
+    },
+    dependencies: {
+      ...base.dependencies,
+      ...override.dependencies,
+    },
   };
 }
 
+/**
+ * Validate security.secretDetection thresholds
+ */
+function validateSecretDetection(config: SecretDetectionConfig | undefined): Result<void> {
+  if (config === undefined) {
+    return ok(undefined);
+  }
+  if (typeof config !== 'object' || config === null) {
+    return err(new Error('security.secretDetection must be an object'));
+  }
+  if (config.enabled !== undefined && typeof config.enabled !== 'boolean') {
+    return err(new Error('security.secretDetection.enabled must be true or false'));
+  }
+  if (
+    config.minLength !== undefined &&
+    (!Number.isInteger(config.minLength) || config.minLength < 1)
+  ) {
+    return err(new Error('security.secretDetection.minLength must be a positive integer'));
+  }
+  if (
+    config.minEntropy !== undefined &&
+    (typeof config.minEntropy !== 'number' || config.minEntropy <= 0)
+  ) {
+    return err(new Error('security.secretDetection.minEntropy must be a positive number'));
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * Validate the security section: allowlist entries written as /regex/
+ * and sensitive patterns must compile
+ */
+function validateSecurityConfig(security: SecurityConfig | undefined): Result<void> {
+  const allowlist = security?.allowlist ?? [];
+  const sensitivePatterns = security?.sensitivePatterns;
+
+  if (sensitivePatterns !== undefined) {
+    if (typeof sensitivePatterns !== 'object' || sensitivePatterns === null) {
+      return err(new Error('security.sensitivePatterns must have mode and patterns'));
+    }
+    if (sensitivePatterns.mode && !['extend', 'replace'].includes(sensitivePatterns.mode)) {
+      return err(
+        new Error(
+          `security.sensitivePatterns.mode must be 'extend' or 'replace', got '${sensitivePatterns.mode}'`
+        )
+      );
+    }
+
+    const patternsResult = validateSensitivePatterns(sensitivePatterns.patterns);
+    if (!patternsResult.success) {
+      return err(new Error(`security.sensitivePatterns: ${patternsResult.error?.message}`));
+    }
+  }
+
+  const secretDetectionResult = validateSecretDetection(security?.secretDetection);
+  if (!secretDetectionResult.success) {
+    return secretDetectionResult;
+  }
+
+  if (!Array.isArray(allowlist)) {
+    return err(new Error('security.allowlist must be a list'));
+  }
+
+  for (const entry of allowlist) {
+    if (typeof entry !== 'string') {
+      return err(new Error(`security.allowlist entries must be strings: ${String(entry)}`));
+    }
+    if (isRegexEntry(entry)) {
+      try {
+        new RegExp(entry.slice(1, -1));
+      } catch (error) {
+        return err(
+          new Error(
+            `security.allowlist entry ${entry} is not a valid regex: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      }
+    }
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * Validate sensitive patterns: a non-empty list of valid regexes
+ */
+export function validateSensitivePatterns(patterns: unknown): Result<void> {
+  if (!Array.isArray(patterns) || patterns.length === 0) {
+    return err(new Error('patterns must be a non-empty list'));
+  }
+
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string' || pattern.trim() === '') {
+      return err(new Error(`patterns must be non-empty strings: ${String(pattern)}`));
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      return err(
+        new Error(
+          `'${pattern}' is not a valid regex: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * Combine custom sensitive patterns with base patterns
+ */
+export function resolveSensitivePatterns(
+  custom: SensitivePatternsConfig | undefined,
+  base: string[] = DEFAULT_SENSITIVE_PATTERNS
+): string[] {
+  if (!custom) {
+    return base;
+  }
+
+  if (custom.mode === 'replace') {
+    return custom.patterns;
+  }
+
+  return [...base, ...custom.patterns.filter((p) => !base.includes(p))];
+}
+
+/**
+ * Get the sensitive patterns for a project: defaults plus security.sensitivePatterns
+ */
+export function getSensitivePatterns(config: MuleBuildConfig): string[] {
+  return resolveSensitivePatterns(config.security?.sensitivePatterns);
+}
+
 /**
  * Get profile configuration for an environment
  */
@@ -0,0 +1,127 @@
+/**
+ * Baseline Engine
+ *
+ * Records the enforce findings a project has accepted for now, so enforce and
+ * the production build fail only on new ones. Findings are identified by
+ * content-based fingerprints, so edits that only move lines keep them baselined.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { Result, ok, err, EnforceResult, SecurityViolation } from '../types/index.js';
+
+/**
+ * Baseline file, relative to the project root (meant to be committed)
+ */
+export const BASELINE_FILE = join('.mule-build', 'enforce-baseline.json');
+
+/**
+ * A baselined finding
+ * Everything except the fingerprint is there for reviewers.
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  kind: SecurityViolation['kind'];
+  file: string;
+  property?: string;
+}
+
+/**
+ * Contents of the baseline file
+ */
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * Compute a fingerprint for each violation, in order
+ * Fingerprints cover the kind, file, property and (masked) value, never line
+ * numbers or secret values. Identical findings in a file are told apart by
+ * their occurrence order.
+ */
+export function computeFingerprints(violations: SecurityViolation[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return violations.map((v) => {
+    const content = [v.kind, v.file.split('\\').join('/'), v.property ?? '', v.value].join('\0');
+    const occurrence = occurrences.get(content) ?? 0;
+    occurrences.set(content, occurrence + 1);
+
+    return createHash('sha256').update(`${content}\0${occurrence}`).digest('hex').slice(0, 32);
+  });
+}
+
+/**
+ * Load the project's baseline, if there is one
+ */
+export function loadBaseline(cwd: string): Result<Baseline | undefined> {
+  const file = join(cwd, BASELINE_FILE);
+  if (!existsSync(file)) {
+    return ok(undefined);
+  }
+
+  try {
+    const baseline = JSON.parse(readFileSync(file, 'utf-8')) as Baseline;
+    if (!Array.isArray(baseline.findings)) {
+      return err(new Error(`Invalid baseline file ${BASELINE_FILE}: missing findings`));
+    }
+    return ok(baseline);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to read ${BASELINE_FILE}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Write every current violation to the baseline file
+ * Returns the path written.
+ */
+export function writeBaseline(cwd: string, violations: SecurityViolation[]): Result<string> {
+  const fingerprints = computeFingerprints(violations);
+  const baseline: Baseline = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    findings: violations.map((v, i) => ({
+      fingerprint: fingerprints[i],
+      kind: v.kind,
+      file: v.file.split('\\').join('/'),
+      ...(v.property !== undefined && { property: v.property }),
+    })),
+  };
+
+  try {
+    const file = join(cwd, BASELINE_FILE);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(baseline, null, 2) + '\n');
+    return ok(file);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to write ${BASELINE_FILE}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Remove baselined violations from an enforce result
+ * The result is valid when no new violations remain.
+ */
+export function applyBaseline(result: EnforceResult, baseline: Baseline): EnforceResult {
+  const known = new Set(baseline.findings.map((f) => f.fingerprint));
+  const fingerprints = computeFingerprints(result.violations);
+  const violations = result.violations.filter((_, i) => !known.has(fingerprints[i]));
+
+  return {
+    ...result,
+    valid: violations.length === 0,
+    violations,
+    baselined: result.violations.length - violations.length,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Change Scanner Engine
+ *
+ * Narrows enforce to the files touched in git: the staged versions of staged
+ * files (pre-commit hooks) or the working tree versions of files changed since
+ * a ref (pull request checks).
+ */
+
+import { join, relative, sep } from 'path';
+import { Result, ok, err, EnforceResult, SecurityViolation } from '../types/index.js';
+import { checkFileContent, isEnforceableFile, EnforceCheckOptions } from './XmlProcessor.js';
+import {
+  getStagedFiles,
+  getFilesChangedSince,
+  getStagedFile,
+  isGitRepo,
+  isValidRef,
+} from '../utils/git.js';
+
+/**
+ * Which changes to select: staged files, or files changed since a ref
+ */
+export interface ChangeScope {
+  staged?: boolean;
+  since?: string;
+}
+
+/**
+ * List enforceable files changed in git, as absolute paths
+ * Only files inside one of the roots (directories or files) are kept.
+ */
+export async function getChangedEnforceableFiles(
+  cwd: string,
+  scope: ChangeScope,
+  roots: string[]
+): Promise<Result<string[]>> {
+  if (!(await isGitRepo(cwd))) {
+    return err(new Error(`Not a git repository: ${cwd}`));
+  }
+
+  if (scope.since !== undefined && !isValidRef(scope.since)) {
+    return err(new Error(`Invalid git ref: ${scope.since}`));
+  }
+
+  const filesResult =
+    scope.since !== undefined
+      ? await getFilesChangedSince(scope.since, cwd)
+      : await getStagedFiles(cwd);
+  if (!filesResult.success || !filesResult.data) {
+    return err(filesResult.error ?? new Error('Failed to list changed files'));
+  }
+
+  const inRoots = (file: string) =>
+    roots.some((root) => file === root || file.startsWith(root.endsWith(sep) ? root : root + sep));
+
+  return ok(
+    filesResult.data
+      .map((file) => join(cwd, file))
+      .filter((file) => isEnforceableFile(file) && inRoots(file))
+  );
+}
+
+/**
+ * Check the staged versions of files
+ * What is checked is exactly what would be committed, even when a file has
+ * further unstaged changes.
+ */
+export async function enforceStaged(
+  files: string[],
+  options: EnforceCheckOptions & { cwd?: string } = {}
+): Promise<Result<EnforceResult>> {
+  const cwd = options.cwd ?? process.cwd();
+
+  const violations: SecurityViolation[] = [];
+  const filesChecked: string[] = [];
+  let suppressed = 0;
+
+  for (const file of files) {
+    const relativePath = relative(cwd, file);
+    const contentResult = await getStagedFile(relativePath.split(sep).join('/'), cwd);
+    if (!contentResult.success || contentResult.data === undefined) {
+      return err(contentResult.error ?? new Error(`Failed to read staged ${relativePath}`));
+    }
+    filesChecked.push(relativePath);
+
+    const result = checkFileContent(contentResult.data, relativePath, options);
+    violations.push(...result.violations);
+    suppressed += result.suppressed.length;
+  }
+
+  return ok({
+    valid: violations.length === 0,
+    filesChecked,
+    violations,
+    suppressed,
+  });
+}
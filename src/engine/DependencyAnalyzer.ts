@@ -0,0 +1,121 @@
+/**
+ * Dependency Analyzer Engine
+ *
+ * Builds the dependency inventory of a pom.xml: Mule connectors, modules, plain
+ * Java libraries and the mule-maven-plugin, with versions resolved from pom
+ * properties and checked against the version catalog.
+ */
+
+import { DependencyCategory, DependencyInfo } from '../types/index.js';
+import { PomDependency, PomModel, isPlugin, resolvePomValue } from './PomModel.js';
+import { DependencyCatalog, checkVersion } from './DependencyCatalog.js';
+
+/**
+ * Coordinates of the plugin that packages Mule applications
+ */
+export const MULE_MAVEN_PLUGIN = {
+  groupId: 'org.mule.tools.maven',
+  artifactId: 'mule-maven-plugin',
+};
+
+/**
+ * Order of categories in the inventory
+ */
+const CATEGORY_ORDER: DependencyCategory[] = [
+  'connector',
+  'module',
+  'library',
+  'mule-maven-plugin',
+];
+
+/**
+ * Classify a dependency
+ * Mule plugins (classifier mule-plugin) are connectors when their coordinates
+ * say so and modules otherwise (APIkit, Validation, ...).
+ */
+export function getDependencyCategory(dependency: PomDependency): DependencyCategory {
+  if (dependency.classifier !== 'mule-plugin') {
+    return 'library';
+  }
+
+  const isConnector =
+    /(^|\.)connectors?(\.|$)/.test(dependency.groupId ?? '') ||
+    /connector/.test(dependency.artifactId ?? '');
+  return isConnector ? 'connector' : 'module';
+}
+
+/**
+ * Describe one declared dependency or plugin
+ */
+function describe(
+  model: PomModel,
+  declared: { groupId?: string; artifactId?: string; version?: string },
+  category: DependencyCategory,
+  catalog: DependencyCatalog | undefined,
+  extra: Partial<DependencyInfo> = {}
+): DependencyInfo {
+  const groupId = declared.groupId ?? '';
+  const artifactId = declared.artifactId ?? '';
+  const resolved = declared.version ? resolvePomValue(model, declared.version) : undefined;
+  const version = resolved?.resolved ? resolved.value : undefined;
+  const check = catalog
+    ? checkVersion(catalog, groupId, artifactId, version)
+    : { status: 'unknown' as const };
+
+  return {
+    groupId,
+    artifactId,
+    category,
+    ...(declared.version !== undefined && { declaredVersion: declared.version }),
+    ...(version !== undefined && { version }),
+    ...(resolved?.property && { property: resolved.property }),
+    ...extra,
+    status: check.status,
+    ...(check.latest && { latest: check.latest }),
+    ...(check.reason && { reason: check.reason }),
+  };
+}
+
+/**
+ * List the project's dependencies and the mule-maven-plugin, grouped by category
+ * Dependencies without a version take it from dependencyManagement.
+ */
+export function listDependencies(model: PomModel, catalog?: DependencyCatalog): DependencyInfo[] {
+  const dependencies = model.dependencies.map((dependency) => {
+    const managed = dependency.version
+      ? undefined
+      : model.dependencyManagement.find(
+          (m) => m.groupId === dependency.groupId && m.artifactId === dependency.artifactId
+        );
+
+    return describe(
+      model,
+      { ...dependency, version: dependency.version ?? managed?.version },
+      getDependencyCategory(dependency),
+      catalog,
+      {
+        ...(managed?.version !== undefined && { managed: true }),
+        ...(dependency.scope && { scope: dependency.scope }),
+        ...(dependency.classifier && { classifier: dependency.classifier }),
+      }
+    );
+  });
+
+  const plugin = model.plugins.find((p) =>
+    isPlugin(p, MULE_MAVEN_PLUGIN.groupId, MULE_MAVEN_PLUGIN.artifactId)
+  );
+  if (plugin) {
+    dependencies.push(
+      describe(
+        model,
+        { ...MULE_MAVEN_PLUGIN, version: plugin.version },
+        'mule-maven-plugin',
+        catalog
+      )
+    );
+  }
+
+  return dependencies.sort(
+    (a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)
+  );
+}
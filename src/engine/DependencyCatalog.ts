@@ -0,0 +1,155 @@
+/**
+ * Dependency Catalog Engine
+ *
+ * Reads the team-maintained catalog of approved dependency versions and checks
+ * pom.xml versions against it, offline. The catalog is a YAML file keyed by
+ * groupId:artifactId:
+ *
+ *   artifacts:
+ *     org.mule.connectors:mule-http-connector:
+ *       latest: 1.10.3
+ *       blocked:
+ *         - versions: "<1.9.0"
+ *           reason: CVE-2024-0001
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { parse } from 'yaml';
+import * as semver from 'semver';
+import { Result, ok, err, DependencyStatus } from '../types/index.js';
+
+/**
+ * Default catalog file, relative to the project root
+ */
+export const CATALOG_FILE = 'mule-build-catalog.yaml';
+
+/**
+ * Versions of one artifact that are blocked, as a semver range
+ */
+export interface BlockedVersions {
+  /** Range such as "<1.9.0" or "1.9.1 || 1.9.2" */
+  versions: string;
+  reason?: string;
+}
+
+/**
+ * Catalog entry for one artifact
+ */
+export interface CatalogEntry {
+  /** Recommended version; older versions are outdated */
+  latest?: string;
+  blocked?: BlockedVersions[];
+}
+
+/**
+ * A loaded catalog
+ */
+export interface DependencyCatalog {
+  /** Path of the catalog file */
+  file: string;
+  /** Entries keyed by groupId:artifactId */
+  artifacts: Record<string, CatalogEntry>;
+}
+
+/**
+ * Result of checking a version against the catalog
+ */
+export interface CatalogCheck {
+  status: DependencyStatus;
+  latest?: string;
+  reason?: string;
+}
+
+/**
+ * Convert a Maven version to semver for comparison (1.9 -> 1.9.0)
+ */
+export function toSemver(version: string): string | undefined {
+  return semver.valid(version, { loose: true }) ?? semver.coerce(version)?.version ?? undefined;
+}
+
+/**
+ * Validate one catalog entry
+ */
+function validateEntry(key: string, entry: unknown): Result<CatalogEntry> {
+  if (!/^[^:\s]+:[^:\s]+$/.test(key)) {
+    return err(new Error(`artifact keys must be groupId:artifactId, got '${key}'`));
+  }
+  if (typeof entry !== 'object' || entry === null) {
+    return err(new Error(`${key} must have latest and/or blocked`));
+  }
+
+  const { latest, blocked } = entry as CatalogEntry;
+  if (latest !== undefined && (typeof latest !== 'string' || !toSemver(latest))) {
+    return err(new Error(`${key}.latest must be a version, got '${String(latest)}'`));
+  }
+  if (blocked !== undefined && !Array.isArray(blocked)) {
+    return err(new Error(`${key}.blocked must be a list`));
+  }
+  for (const block of blocked ?? []) {
+    if (typeof block?.versions !== 'string' || !semver.validRange(block.versions)) {
+      return err(new Error(`${key}.blocked has an invalid versions range: ${block?.versions}`));
+    }
+  }
+
+  return ok({ latest, blocked });
+}
+
+/**
+ * Load and validate a catalog file
+ */
+export function loadCatalog(file: string): Result<DependencyCatalog> {
+  if (!existsSync(file)) {
+    return err(new Error(`Catalog not found: ${file}`));
+  }
+
+  let content: { artifacts?: Record<string, unknown> } | null;
+  try {
+    content = parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to parse catalog ${file}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+
+  const artifacts: Record<string, CatalogEntry> = {};
+  for (const [key, entry] of Object.entries(content?.artifacts ?? {})) {
+    const entryResult = validateEntry(key, entry);
+    if (!entryResult.success || !entryResult.data) {
+      return err(new Error(`Invalid catalog ${file}: ${entryResult.error?.message}`));
+    }
+    artifacts[key] = entryResult.data;
+  }
+
+  return ok({ file, artifacts });
+}
+
+/**
+ * Check a resolved version against the catalog
+ */
+export function checkVersion(
+  catalog: DependencyCatalog,
+  groupId: string,
+  artifactId: string,
+  version: string | undefined
+): CatalogCheck {
+  const entry = catalog.artifacts[`${groupId}:${artifactId}`];
+  const current = version ? toSemver(version) : undefined;
+
+  if (!entry || !current) {
+    return { status: 'unknown', latest: entry?.latest };
+  }
+
+  const block = entry.blocked?.find((b) => semver.satisfies(current, b.versions));
+  if (block) {
+    return { status: 'blocked', latest: entry.latest, reason: block.reason };
+  }
+
+  const latest = entry.latest ? toSemver(entry.latest) : undefined;
+  if (latest && semver.lt(current, latest)) {
+    return { status: 'outdated', latest: entry.latest };
+  }
+
+  return { status: 'current', latest: entry.latest };
+}
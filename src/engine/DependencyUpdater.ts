@@ -0,0 +1,272 @@
+/**
+ * Dependency Updater Engine
+ *
+ * Changes dependency and plugin versions in pom.xml where they are actually
+ * defined: the <version> element itself, the <properties> entry it refers to,
+ * or the dependencyManagement / pluginManagement declaration. Edits go through
+ * the PomModel, so the rest of the file keeps its formatting.
+ */
+
+import { Result, ok, err, DependencyUpdate } from '../types/index.js';
+import { PomModel, isPlugin, parsePom, resolvePomValue, setPomValue } from './PomModel.js';
+
+/**
+ * A version to set for one artifact
+ */
+export interface VersionChange {
+  groupId: string;
+  artifactId: string;
+  version: string;
+}
+
+/**
+ * Versions accepted by deps set (written into pom.xml as-is)
+ */
+const VERSION = /^[A-Za-z0-9][A-Za-z0-9._+-]*$/;
+
+/**
+ * Matches a value that is a single ${property} reference
+ */
+const PROPERTY_REFERENCE = /^\$\{([^}]+)\}$/;
+
+/**
+ * Where one declaration of an artifact gets its version
+ */
+interface VersionLocation {
+  /** Path of the element holding the version */
+  path: string;
+  /** pom property holding the version */
+  property?: string;
+}
+
+/**
+ * Parse groupId:artifactId
+ */
+export function parseCoordinates(
+  coordinates: string
+): Result<{ groupId: string; artifactId: string }> {
+  const match = coordinates.match(/^([^:\s]+):([^:\s]+)$/);
+  if (!match) {
+    return err(new Error(`Expected groupId:artifactId, got '${coordinates}'`));
+  }
+  return ok({ groupId: match[1], artifactId: match[2] });
+}
+
+/**
+ * Check that a version can be written into pom.xml
+ */
+export function isValidVersion(version: string): boolean {
+  return VERSION.test(version);
+}
+
+/**
+ * Every declaration of an artifact: dependencies, dependencyManagement,
+ * plugins and pluginManagement, including those in profiles
+ */
+function findDeclarations(
+  model: PomModel,
+  groupId: string,
+  artifactId: string
+): { path: string; version?: string }[] {
+  const plugins = [
+    ...model.plugins,
+    ...model.pluginManagement,
+    ...model.profiles.flatMap((p) => p.plugins),
+  ];
+  const dependencies = [
+    ...model.dependencies,
+    ...model.dependencyManagement,
+    ...model.profiles.flatMap((p) => p.dependencies),
+  ];
+
+  return [
+    ...dependencies.filter((d) => d.groupId === groupId && d.artifactId === artifactId),
+    ...plugins.filter((p) => isPlugin(p, groupId, artifactId)),
+  ];
+}
+
+/**
+ * The <properties> a declaration can take its version from: the project's,
+ * and those of each profile that applies to it. A profile's properties
+ * override the project's while the profile is active.
+ */
+function getPropertyScopes(
+  model: PomModel,
+  declarationPath: string
+): { owner: string; properties: Record<string, string> }[][] {
+  const project = { owner: 'project', properties: model.properties };
+  const profiles = model.profiles.map((p) => ({ owner: p.path, properties: p.properties }));
+
+  const own = profiles.find((p) => declarationPath.startsWith(`${p.owner}/`));
+  if (own) {
+    return [[own, project]];
+  }
+  return [[project], ...profiles.map((p) => [p, project])];
+}
+
+/**
+ * Follow a ${property} reference to the properties holding the literal version
+ * A property defined both in the project and in profiles has one location per
+ * definition, so every one of them gets the new version.
+ */
+function findVersionLocations(
+  model: PomModel,
+  declaration: { path: string; version?: string }
+): Result<VersionLocation[]> {
+  const declared = declaration.version ?? '';
+  const reference = declared.match(PROPERTY_REFERENCE)?.[1];
+
+  if (reference === undefined) {
+    if (declared.includes('${')) {
+      return err(new Error(`cannot update version '${declared}' in ${declaration.path}`));
+    }
+    return ok([{ path: `${declaration.path}/version` }]);
+  }
+
+  const locations: VersionLocation[] = [];
+  for (const scope of getPropertyScopes(model, declaration.path)) {
+    const seen: string[] = [];
+    let property: string | undefined = reference;
+
+    while (property !== undefined && !seen.includes(property)) {
+      const name: string = property;
+      const definition = scope.find((s) => name in s.properties);
+      if (!definition) break;
+      seen.push(name);
+
+      property = definition.properties[name].match(PROPERTY_REFERENCE)?.[1];
+      if (property === undefined) {
+        locations.push({ path: `${definition.owner}/properties/${name}`, property: name });
+      }
+    }
+
+    if (property !== undefined && seen.includes(property)) {
+      return err(new Error(`version ${declared} in ${declaration.path} has a circular reference`));
+    }
+  }
+
+  if (locations.length === 0) {
+    return err(
+      new Error(`version ${declared} in ${declaration.path} is not defined in <properties>`)
+    );
+  }
+  return ok(locations);
+}
+
+/**
+ * Other artifacts whose version refers to a property
+ */
+function findSharedUsers(model: PomModel, property: string, exclude: string): string[] {
+  const declarations = [
+    ...model.dependencies,
+    ...model.dependencyManagement,
+    ...model.plugins,
+    ...model.pluginManagement,
+  ];
+
+  const users = declarations
+    .filter((d) => d.version && resolvePomValue(model, d.version).property === property)
+    .map((d) => `${d.groupId}:${d.artifactId}`)
+    .filter((coordinates) => coordinates !== exclude);
+
+  return [...new Set(users)];
+}
+
+/**
+ * Set the version of one artifact wherever it is defined
+ * Returns the new content and one update per edited location (none if the
+ * version is already set).
+ */
+function applyChange(
+  content: string,
+  change: VersionChange
+): Result<{ content: string; updates: DependencyUpdate[] }> {
+  const coordinates = `${change.groupId}:${change.artifactId}`;
+  const modelResult = parsePom(content);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to parse pom.xml'));
+  }
+  const model = modelResult.data;
+
+  const declarations = findDeclarations(model, change.groupId, change.artifactId);
+  if (declarations.length === 0) {
+    return err(new Error(`${coordinates} is not declared in pom.xml`));
+  }
+
+  const versioned = declarations.filter((d) => d.version !== undefined);
+  if (versioned.length === 0) {
+    return err(new Error(`${coordinates} has no version in pom.xml (it is inherited)`));
+  }
+
+  const locations = new Map<string, VersionLocation>();
+  for (const declaration of versioned) {
+    const locationResult = findVersionLocations(model, declaration);
+    if (!locationResult.success || !locationResult.data) {
+      return err(new Error(`Cannot update ${coordinates}: ${locationResult.error?.message}`));
+    }
+    for (const location of locationResult.data) {
+      locations.set(location.path, location);
+    }
+  }
+
+  const updates: DependencyUpdate[] = [];
+  let updated = content;
+
+  for (const location of locations.values()) {
+    const currentResult = parsePom(updated);
+    if (!currentResult.success || !currentResult.data) {
+      return err(currentResult.error ?? new Error('Failed to parse updated pom.xml'));
+    }
+    const currentModel = currentResult.data;
+    const position = currentModel.positions.get(location.path);
+    const from = position ? updated.slice(position.valueStart, position.valueEnd) : undefined;
+    if (from === change.version) continue;
+
+    const editResult = setPomValue(currentModel, location.path, change.version);
+    if (!editResult.success || editResult.data === undefined) {
+      return err(editResult.error ?? new Error(`Failed to update ${coordinates}`));
+    }
+    updated = editResult.data;
+
+    const sharedWith = location.property
+      ? findSharedUsers(model, location.property, coordinates)
+      : [];
+    updates.push({
+      groupId: change.groupId,
+      artifactId: change.artifactId,
+      ...(from !== undefined && { from }),
+      to: change.version,
+      location: location.path,
+      ...(location.property && { property: location.property }),
+      ...(sharedWith.length > 0 && { sharedWith }),
+    });
+  }
+
+  return ok({ content: updated, updates });
+}
+
+/**
+ * Apply version changes to pom.xml content
+ */
+export function applyVersionChanges(
+  content: string,
+  changes: VersionChange[]
+): Result<{ content: string; updates: DependencyUpdate[] }> {
+  let updated = content;
+  const updates: DependencyUpdate[] = [];
+
+  for (const change of changes) {
+    if (!isValidVersion(change.version)) {
+      return err(new Error(`Invalid version: ${change.version}`));
+    }
+
+    const result = applyChange(updated, change);
+    if (!result.success || !result.data) {
+      return err(result.error ?? new Error('Failed to update pom.xml'));
+    }
+    updated = result.data.content;
+    updates.push(...result.data.updates);
+  }
+
+  return ok({ content: updated, updates });
+}
@@ -0,0 +1,115 @@
+/**
+ * History Scanner Engine
+ *
+ * Runs the secret detectors against every version of every enforceable file
+ * in git history, so secrets that were committed and later removed are found.
+ */
+
+import { posix } from 'path';
+import { Result, ok, err, EnforceResult, SecurityViolation } from '../types/index.js';
+import { checkFileContent, isEnforceableFile, EnforceCheckOptions } from './XmlProcessor.js';
+import {
+  getCommits,
+  getChangedFiles,
+  getFileAtCommit,
+  getRepoPrefix,
+  isGitRepo,
+  isValidRef,
+} from '../utils/git.js';
+
+/**
+ * Key identifying the same finding across commits
+ * Keyed on the hash of the raw value, not the masked one, so a rotated secret
+ * under the same key is a new finding.
+ */
+function findingKey(violation: SecurityViolation, valueHash: string | undefined): string {
+  return [violation.file, violation.kind, violation.property ?? '', valueHash ?? ''].join('\0');
+}
+
+/**
+ * Check whether a repository path is inside a directory ('' is the root)
+ */
+function isWithin(file: string, directory: string): boolean {
+  return directory === '' || file === directory || file.startsWith(`${directory}/`);
+}
+
+/**
+ * Scan git history for committed secrets
+ * Only detectors for secret values run (plaintext property values, literal
+ * credentials and secret-like values); references without secure:: are not
+ * secrets. Each finding is reported once, for the commit that introduced it.
+ * Only files in the project at cwd (narrowed by pathPrefix, relative to cwd)
+ * are scanned, even when the repository holds other projects.
+ */
+export async function scanHistory(
+  cwd: string,
+  options: EnforceCheckOptions & { since?: string; pathPrefix?: string } = {}
+): Promise<Result<EnforceResult>> {
+  if (!(await isGitRepo(cwd))) {
+    return err(new Error(`Not a git repository: ${cwd}`));
+  }
+
+  if (options.since && !isValidRef(options.since)) {
+    return err(new Error(`Invalid git ref: ${options.since}`));
+  }
+
+  // Git reports paths from the repository root; the project may be a subdirectory
+  const prefixResult = await getRepoPrefix(cwd);
+  if (!prefixResult.success || prefixResult.data === undefined) {
+    return err(prefixResult.error ?? new Error('Failed to locate repository root'));
+  }
+  const projectPrefix = prefixResult.data.replace(/\/$/, '');
+  const scope = posix.join(projectPrefix, options.pathPrefix ?? '').replace(/^\.$|\/$/g, '');
+
+  const commitsResult = await getCommits(options.since, cwd);
+  if (!commitsResult.success || !commitsResult.data) {
+    return err(commitsResult.error ?? new Error('Failed to list commits'));
+  }
+
+  const violations: SecurityViolation[] = [];
+  const filesChecked: string[] = [];
+  const seen = new Set<string>();
+  const seenSuppressed = new Set<string>();
+
+  for (const commit of commitsResult.data) {
+    const filesResult = await getChangedFiles(commit.sha, cwd);
+    if (!filesResult.success || !filesResult.data) {
+      return err(filesResult.error ?? new Error(`Failed to list files in ${commit.sha}`));
+    }
+
+    const files = filesResult.data.filter(
+      (path) => isEnforceableFile(path) && isWithin(path, scope)
+    );
+
+    for (const path of files) {
+      const contentResult = await getFileAtCommit(commit.sha, path, cwd);
+      if (!contentResult.success || contentResult.data === undefined) {
+        return err(contentResult.error ?? new Error(`Failed to read ${path} at ${commit.sha}`));
+      }
+      // Findings are reported relative to the project, like other enforce modes
+      const file = posix.relative(projectPrefix, path);
+      filesChecked.push(`${file}@${commit.sha.slice(0, 7)}`);
+
+      const result = checkFileContent(contentResult.data, file, options);
+
+      for (const v of result.violations) {
+        const key = findingKey(v, result.valueHashes.get(v));
+        if (v.kind === 'unsecured-reference' || seen.has(key)) continue;
+        seen.add(key);
+        violations.push({ ...v, commit });
+      }
+      for (const v of result.suppressed) {
+        if (v.kind !== 'unsecured-reference') {
+          seenSuppressed.add(findingKey(v, result.valueHashes.get(v)));
+        }
+      }
+    }
+  }
+
+  return ok({
+    valid: violations.length === 0,
+    filesChecked,
+    violations,
+    suppressed: seenSuppressed.size,
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Maven Config Engine
+ *
+ * Reads and edits the -D properties in .mvn/maven.config, which CI-friendly
+ * versions (<version>${revision}</version>) often take their value from.
+ * Maven looks for the .mvn directory from the project upwards, so a module
+ * shares the one at the root of its multi-module build.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { Result, ok, err } from '../types/index.js';
+
+/**
+ * maven.config, relative to the directory holding .mvn
+ */
+export const MAVEN_CONFIG_FILE = join('.mvn', 'maven.config');
+
+/**
+ * Matches a property definition: -Dname=value, -D name=value or --define name=value
+ * Values may be double-quoted.
+ */
+const PROPERTY_DEFINITION = /(^|\s)(?:-D\s*|--define[=\s]\s*)([^\s="]+)=("[^"]*"|[^\s"]*)/g;
+
+/**
+ * A property defined in maven.config, with the offsets of its value
+ */
+interface MavenConfigProperty {
+  value: string;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * A loaded maven.config
+ */
+export interface MavenConfig {
+  /** Absolute path of the file */
+  file: string;
+  content: string;
+  /** User properties, which take precedence over pom <properties> */
+  properties: Record<string, string>;
+}
+
+/**
+ * Find the properties defined in maven.config content
+ * Later definitions win, as on the Maven command line.
+ */
+function findProperties(content: string): Map<string, MavenConfigProperty> {
+  const properties = new Map<string, MavenConfigProperty>();
+
+  for (const match of content.matchAll(PROPERTY_DEFINITION)) {
+    const raw = match[3];
+    const quoted = raw.startsWith('"');
+    const valueEnd = (match.index ?? 0) + match[0].length - (quoted ? 1 : 0);
+    const value = quoted ? raw.slice(1, -1) : raw;
+
+    properties.set(match[2], { value, valueStart: valueEnd - value.length, valueEnd });
+  }
+
+  return properties;
+}
+
+/**
+ * Find the maven.config that applies to a project directory
+ */
+export function findMavenConfig(cwd: string): string | undefined {
+  let dir = resolve(cwd);
+
+  for (;;) {
+    if (existsSync(join(dir, '.mvn'))) {
+      const file = join(dir, MAVEN_CONFIG_FILE);
+      return existsSync(file) ? file : undefined;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the maven.config that applies to a project directory, if there is one
+ */
+export function loadMavenConfig(cwd: string): Result<MavenConfig | undefined> {
+  const file = findMavenConfig(cwd);
+  if (!file) {
+    return ok(undefined);
+  }
+
+  try {
+    const content = readFileSync(file, 'utf-8');
+    const properties: Record<string, string> = {};
+    for (const [name, property] of findProperties(content)) {
+      properties[name] = property.value;
+    }
+    return ok({ file, content, properties });
+  } catch (error) {
+    return err(
+      new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`)
+    );
+  }
+}
+
+/**
+ * Set a property that maven.config already defines
+ * Only the value changes; the rest of the file is kept as it is.
+ */
+export function setMavenConfigProperty(
+  config: MavenConfig,
+  name: string,
+  value: string
+): Result<void> {
+  const property = findProperties(config.content).get(name);
+  if (!property) {
+    return err(new Error(`${name} is not defined in ${config.file}`));
+  }
+  if (/[\s"]/.test(value)) {
+    return err(new Error(`Invalid value for ${name}: ${value}`));
+  }
+
+  const content =
+    config.content.slice(0, property.valueStart) + value + config.content.slice(property.valueEnd);
+
+  try {
+    writeFileSync(config.file, content);
+    return ok(undefined);
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * POM Checker Engine
+ *
+ * Validates the Mule-specific build configuration of a pom.xml: packaging, the
+ * mule-maven-plugin, runtime properties, MuleSoft repositories and the Maven
+ * profiles mule-build.yaml refers to. Catches mistakes that otherwise surface
+ * as obscure Maven errors halfway through a build.
+ */
+
+import { MuleBuildConfig, PomIssue } from '../types/index.js';
+import { PomModel, PomRepository, getLineAt, isPlugin, resolvePomValue } from './PomModel.js';
+import { MULE_MAVEN_PLUGIN } from './DependencyAnalyzer.js';
+import { DEFAULT_PROFILES } from '../config/defaults.js';
+
+/**
+ * Properties the mule-maven-plugin and Anypoint tooling rely on
+ */
+const RUNTIME_PROPERTIES = ['app.runtime', 'mule.maven.plugin.version'];
+
+/**
+ * Repository id and URL of MuleSoft's release repository
+ */
+const MULESOFT_RELEASES = {
+  id: 'mulesoft-releases',
+  url: 'repository.mulesoft.org/releases',
+};
+
+/**
+ * Line of an element, if the model has it
+ */
+function lineOf(model: PomModel, path: string): number | undefined {
+  const position = model.positions.get(path);
+  return position ? getLineAt(model.content, position.start) : undefined;
+}
+
+/**
+ * Check whether a repository is MuleSoft's release repository
+ */
+function isMulesoftReleases(repository: PomRepository): boolean {
+  return (
+    repository.id === MULESOFT_RELEASES.id || (repository.url ?? '').includes(MULESOFT_RELEASES.url)
+  );
+}
+
+/**
+ * Maven profiles in a -P list that pom.xml does not define
+ * Deactivated profiles (!name or -name) are ignored.
+ */
+export function findMissingMavenProfiles(model: PomModel, mavenProfile: string): string[] {
+  const defined = new Set(model.profiles.map((p) => p.id));
+
+  return mavenProfile
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '' && !name.startsWith('!') && !name.startsWith('-'))
+    .filter((name) => !defined.has(name));
+}
+
+/**
+ * Check packaging and the mule-maven-plugin declaration
+ */
+function checkPackaging(model: PomModel): PomIssue[] {
+  const issues: PomIssue[] = [];
+
+  if (model.packaging !== 'mule-application') {
+    issues.push({
+      rule: 'packaging',
+      severity: 'error',
+      message: model.packaging
+        ? `<packaging> is '${model.packaging}', expected 'mule-application'`
+        : `<packaging> is missing (defaults to 'jar'), expected 'mule-application'`,
+      line: lineOf(model, 'project/packaging') ?? lineOf(model, 'project'),
+    });
+  }
+
+  const plugin = model.plugins.find((p) =>
+    isPlugin(p, MULE_MAVEN_PLUGIN.groupId, MULE_MAVEN_PLUGIN.artifactId)
+  );
+  if (!plugin) {
+    issues.push({
+      rule: 'mule-maven-plugin',
+      severity: 'error',
+      message: `${MULE_MAVEN_PLUGIN.groupId}:${MULE_MAVEN_PLUGIN.artifactId} is not declared in <build><plugins>`,
+      line: lineOf(model, 'project/build') ?? lineOf(model, 'project'),
+    });
+  } else if (!plugin.version || !resolvePomValue(model, plugin.version).resolved) {
+    issues.push({
+      rule: 'mule-maven-plugin',
+      severity: 'error',
+      message: plugin.version
+        ? `mule-maven-plugin version ${plugin.version} cannot be resolved`
+        : 'mule-maven-plugin has no <version>',
+      line: lineOf(model, plugin.path),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check that the runtime properties are set
+ */
+function checkRuntimeProperties(model: PomModel): PomIssue[] {
+  return RUNTIME_PROPERTIES.filter((name) => !model.properties[name]?.trim()).map((name) => ({
+    rule: 'runtime-properties',
+    severity: 'error',
+    message: `Property ${name} is not set in <properties>`,
+    line: lineOf(model, 'project/properties') ?? lineOf(model, 'project'),
+  }));
+}
+
+/**
+ * Check for MuleSoft's release repositories
+ * Only a warning: settings.xml or a mirror may provide them.
+ */
+function checkRepositories(model: PomModel): PomIssue[] {
+  const issues: PomIssue[] = [];
+
+  if (!model.repositories.some(isMulesoftReleases)) {
+    issues.push({
+      rule: 'repositories',
+      severity: 'warning',
+      message: `No ${MULESOFT_RELEASES.id} repository in <repositories>`,
+      line: lineOf(model, 'project/repositories'),
+    });
+  }
+  if (!model.pluginRepositories.some(isMulesoftReleases)) {
+    issues.push({
+      rule: 'repositories',
+      severity: 'warning',
+      message: `No ${MULESOFT_RELEASES.id} plugin repository in <pluginRepositories>`,
+      line: lineOf(model, 'project/pluginRepositories'),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check that every Maven profile named in mule-build.yaml exists in pom.xml
+ * Built-in profiles the file does not override are only a warning: the
+ * project never asked for them, and Maven merely warns about a missing -P profile.
+ */
+function checkMavenProfiles(model: PomModel, config: MuleBuildConfig): PomIssue[] {
+  const configured = config.profiles ?? {};
+  const defaults = Object.entries(DEFAULT_PROFILES).filter(([name]) => !(name in configured));
+
+  return [
+    ...Object.entries(configured).map(([name, profile]) => ({ name, profile, builtIn: false })),
+    ...defaults.map(([name, profile]) => ({ name, profile, builtIn: true })),
+  ].flatMap(({ name, profile, builtIn }) =>
+    profile?.mavenProfile
+      ? findMissingMavenProfiles(model, profile.mavenProfile).map((missing) => ({
+          rule: 'maven-profile' as const,
+          severity: builtIn ? ('warning' as const) : ('error' as const),
+          message: builtIn
+            ? `Built-in profile '${name}' uses Maven profile '${missing}', which is not defined in <profiles>`
+            : `Profile '${name}' uses Maven profile '${missing}', which is not defined in <profiles>`,
+          line: lineOf(model, 'project/profiles'),
+        }))
+      : []
+  );
+}
+
+/**
+ * Run every pom check
+ * config is mule-build.yaml as written, without defaults.
+ */
+export function checkPomModel(model: PomModel, config: MuleBuildConfig): PomIssue[] {
+  return [
+    ...checkPackaging(model),
+    ...checkRuntimeProperties(model),
+    ...checkRepositories(model),
+    ...checkMavenProfiles(model, config),
+  ];
+}
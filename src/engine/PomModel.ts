@@ -0,0 +1,510 @@
+/**
+ * POM Model Engine
+ *
+ * Parses pom.xml into a structured model (parent, coordinates, properties,
+ * dependencies, plugins and profiles) with the position of every element, so
+ * values can be edited in place without reformatting the file.
+ */
+
+import { Result, ok, err } from '../types/index.js';
+
+/**
+ * Position of an element in the pom.xml content
+ */
+export interface PomPosition {
+  /** Offset of the start tag */
+  start: number;
+  /** Offset just past the end tag */
+  end: number;
+  /** Offset of the trimmed text value (the content range for elements with children) */
+  valueStart: number;
+  /** Offset just past the trimmed text value */
+  valueEnd: number;
+}
+
+/**
+ * A dependency or managed dependency
+ */
+export interface PomDependency {
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  scope?: string;
+  type?: string;
+  classifier?: string;
+  /** Element path, e.g. project/dependencies/dependency[2] */
+  path: string;
+}
+
+/**
+ * A build plugin
+ */
+export interface PomPlugin {
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  /** Element path, e.g. project/build/plugins/plugin[0] */
+  path: string;
+}
+
+/**
+ * groupId Maven assumes for a plugin that does not declare one
+ */
+export const DEFAULT_PLUGIN_GROUP_ID = 'org.apache.maven.plugins';
+
+/**
+ * A build profile
+ */
+export interface PomProfile {
+  id?: string;
+  properties: Record<string, string>;
+  dependencies: PomDependency[];
+  plugins: PomPlugin[];
+  /** Element path, e.g. project/profiles/profile[0] */
+  path: string;
+}
+
+/**
+ * A repository or plugin repository
+ */
+export interface PomRepository {
+  id?: string;
+  url?: string;
+  /** Element path, e.g. project/repositories/repository[0] */
+  path: string;
+}
+
+/**
+ * The parent project reference
+ */
+export interface PomParent {
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  relativePath?: string;
+}
+
+/**
+ * Structured view of a pom.xml
+ * Coordinates are the project's own; values inherited from the parent are not filled in.
+ */
+export interface PomModel {
+  content: string;
+  parent?: PomParent;
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  name?: string;
+  packaging?: string;
+  properties: Record<string, string>;
+  dependencies: PomDependency[];
+  dependencyManagement: PomDependency[];
+  plugins: PomPlugin[];
+  pluginManagement: PomPlugin[];
+  repositories: PomRepository[];
+  pluginRepositories: PomRepository[];
+  profiles: PomProfile[];
+  /** Position of every element by path, e.g. project/parent/version */
+  positions: Map<string, PomPosition>;
+}
+
+/**
+ * A parsed XML element
+ */
+interface XmlElement {
+  name: string;
+  start: number;
+  end: number;
+  contentStart: number;
+  contentEnd: number;
+  children: XmlElement[];
+}
+
+/**
+ * Elements that repeat inside their container; their paths carry an index
+ */
+const LIST_ELEMENTS = [
+  'dependency',
+  'exclusion',
+  'plugin',
+  'execution',
+  'goal',
+  'profile',
+  'module',
+  'repository',
+  'pluginRepository',
+  'resource',
+  'extension',
+  'developer',
+  'license',
+];
+
+/**
+ * Markup in a pom.xml: comments, CDATA, declarations, end tags and start tags
+ */
+const MARKUP =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)(?:[^>"']|"[^"]*"|'[^']*')*?(\/?)>/g;
+
+const ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+/**
+ * Decode the predefined XML entities
+ */
+function unescapeXml(value: string): string {
+  return value.replace(/&(?:lt|gt|amp|quot|apos);/g, (entity) => ENTITIES[entity]);
+}
+
+/**
+ * Encode characters that cannot appear in XML text
+ */
+export function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Get the 1-based line number of an offset
+ */
+export function getLineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Parse XML content into an element tree
+ */
+function parseElements(content: string): Result<XmlElement> {
+  const root: XmlElement = {
+    name: '',
+    start: 0,
+    end: content.length,
+    contentStart: 0,
+    contentEnd: content.length,
+    children: [],
+  };
+  const stack: XmlElement[] = [root];
+
+  for (const match of content.matchAll(MARKUP)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const current = stack[stack.length - 1];
+
+    if (match[2]) {
+      const element: XmlElement = {
+        name: match[2],
+        start,
+        end,
+        contentStart: end,
+        contentEnd: end,
+        children: [],
+      };
+      current.children.push(element);
+      if (!match[3]) {
+        stack.push(element);
+      }
+    } else if (match[1]) {
+      if (current === root || current.name !== match[1]) {
+        return err(
+          new Error(
+            `Malformed pom.xml: unexpected </${match[1]}> on line ${getLineAt(content, start)}`
+          )
+        );
+      }
+      current.contentEnd = start;
+      current.end = end;
+      stack.pop();
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    return err(
+      new Error(
+        `Malformed pom.xml: <${open.name}> on line ${getLineAt(content, open.start)} is not closed`
+      )
+    );
+  }
+
+  return ok(root);
+}
+
+/**
+ * Record the position of an element and its descendants by path
+ */
+function indexPositions(
+  content: string,
+  element: XmlElement,
+  path: string,
+  positions: Map<string, PomPosition>
+): void {
+  let valueStart = element.contentStart;
+  let valueEnd = element.contentEnd;
+
+  if (element.children.length === 0) {
+    const text = content.slice(valueStart, valueEnd);
+    valueStart += text.length - text.trimStart().length;
+    valueEnd -= text.length - text.trimEnd().length;
+    if (valueEnd < valueStart) valueEnd = valueStart;
+  }
+
+  positions.set(path, { start: element.start, end: element.end, valueStart, valueEnd });
+
+  const counts = new Map<string, number>();
+  for (const child of element.children) {
+    const index = counts.get(child.name) ?? 0;
+    counts.set(child.name, index + 1);
+
+    const segment = LIST_ELEMENTS.includes(child.name) ? `${child.name}[${index}]` : child.name;
+    indexPositions(content, child, `${path}/${segment}`, positions);
+  }
+}
+
+/**
+ * Content and positions of a parsed pom.xml
+ */
+type PomSource = Pick<PomModel, 'content' | 'positions'>;
+
+/**
+ * Text value of a leaf element
+ */
+function readText(source: PomSource, path: string): string | undefined {
+  const position = source.positions.get(path);
+  if (!position) return undefined;
+  return unescapeXml(source.content.slice(position.valueStart, position.valueEnd));
+}
+
+/**
+ * Paths of the indexed children of a container, e.g. dependencies/dependency[i]
+ */
+function readList(source: PomSource, container: string, name: string): string[] {
+  const paths: string[] = [];
+  while (source.positions.has(`${container}/${name}[${paths.length}]`)) {
+    paths.push(`${container}/${name}[${paths.length}]`);
+  }
+  return paths;
+}
+
+/**
+ * Leaf children of a container as name/value pairs
+ */
+function readProperties(source: PomSource, container: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const prefix = `${container}/`;
+  for (const path of source.positions.keys()) {
+    if (path.startsWith(prefix) && !path.slice(prefix.length).includes('/')) {
+      properties[path.slice(prefix.length)] = readText(source, path) ?? '';
+    }
+  }
+  return properties;
+}
+
+/**
+ * Dependencies listed in a dependencies container
+ */
+function readDependencies(source: PomSource, container: string): PomDependency[] {
+  return readList(source, container, 'dependency').map((path) => ({
+    groupId: readText(source, `${path}/groupId`),
+    artifactId: readText(source, `${path}/artifactId`),
+    version: readText(source, `${path}/version`),
+    scope: readText(source, `${path}/scope`),
+    type: readText(source, `${path}/type`),
+    classifier: readText(source, `${path}/classifier`),
+    path,
+  }));
+}
+
+/**
+ * Plugins listed in a plugins container
+ */
+function readPlugins(source: PomSource, container: string): PomPlugin[] {
+  return readList(source, container, 'plugin').map((path) => ({
+    groupId: readText(source, `${path}/groupId`),
+    artifactId: readText(source, `${path}/artifactId`),
+    version: readText(source, `${path}/version`),
+    path,
+  }));
+}
+
+/**
+ * Repositories listed in a repositories or pluginRepositories container
+ */
+function readRepositories(source: PomSource, container: string, name: string): PomRepository[] {
+  return readList(source, container, name).map((path) => ({
+    id: readText(source, `${path}/id`),
+    url: readText(source, `${path}/url`),
+    path,
+  }));
+}
+
+/**
+ * Check whether a plugin is groupId:artifactId, applying Maven's default groupId
+ */
+export function isPlugin(plugin: PomPlugin, groupId: string, artifactId: string): boolean {
+  return (
+    (plugin.groupId ?? DEFAULT_PLUGIN_GROUP_ID) === groupId && plugin.artifactId === artifactId
+  );
+}
+
+/**
+ * Parse pom.xml content into a model
+ */
+export function parsePom(content: string): Result<PomModel> {
+  const treeResult = parseElements(content);
+  if (!treeResult.success || !treeResult.data) {
+    return err(treeResult.error ?? new Error('Failed to parse pom.xml'));
+  }
+
+  const project = treeResult.data.children.find((element) => element.name === 'project');
+  if (!project) {
+    return err(new Error('Malformed pom.xml: no <project> element'));
+  }
+
+  const positions = new Map<string, PomPosition>();
+  indexPositions(content, project, 'project', positions);
+  const source: PomSource = { content, positions };
+
+  const model: PomModel = {
+    content,
+    groupId: readText(source, 'project/groupId'),
+    artifactId: readText(source, 'project/artifactId'),
+    version: readText(source, 'project/version'),
+    name: readText(source, 'project/name'),
+    packaging: readText(source, 'project/packaging'),
+    properties: readProperties(source, 'project/properties'),
+    dependencies: readDependencies(source, 'project/dependencies'),
+    dependencyManagement: readDependencies(source, 'project/dependencyManagement/dependencies'),
+    plugins: readPlugins(source, 'project/build/plugins'),
+    pluginManagement: readPlugins(source, 'project/build/pluginManagement/plugins'),
+    repositories: readRepositories(source, 'project/repositories', 'repository'),
+    pluginRepositories: readRepositories(source, 'project/pluginRepositories', 'pluginRepository'),
+    profiles: readList(source, 'project/profiles', 'profile').map((path) => ({
+      id: readText(source, `${path}/id`),
+      properties: readProperties(source, `${path}/properties`),
+      dependencies: readDependencies(source, `${path}/dependencies`),
+      plugins: readPlugins(source, `${path}/build/plugins`),
+      path,
+    })),
+    positions,
+  };
+
+  if (positions.has('project/parent')) {
+    model.parent = {
+      groupId: readText(source, 'project/parent/groupId'),
+      artifactId: readText(source, 'project/parent/artifactId'),
+      version: readText(source, 'project/parent/version'),
+      relativePath: readText(source, 'project/parent/relativePath'),
+    };
+  }
+
+  return ok(model);
+}
+
+/**
+ * Replace the text value of an element, leaving the rest of the file untouched
+ * Returns the new content.
+ */
+export function setPomValue(model: PomModel, path: string, value: string): Result<string> {
+  const position = model.positions.get(path);
+  if (!position) {
+    return err(new Error(`Element not found in pom.xml: ${path}`));
+  }
+  if (hasChildren(model, path)) {
+    return err(new Error(`Cannot set a value on ${path}: it contains other elements`));
+  }
+
+  const { content } = model;
+
+  // Self-closing element: <version/>
+  if (position.valueStart === position.end) {
+    const name = path.slice(path.lastIndexOf('/') + 1).replace(/\[\d+\]$/, '');
+    return ok(
+      `${content.slice(0, position.start)}<${name}>${escapeXml(value)}</${name}>${content.slice(position.end)}`
+    );
+  }
+
+  return ok(
+    content.slice(0, position.valueStart) + escapeXml(value) + content.slice(position.valueEnd)
+  );
+}
+
+/**
+ * Check whether an element has child elements
+ */
+function hasChildren(model: PomModel, path: string): boolean {
+  const prefix = `${path}/`;
+  for (const key of model.positions.keys()) {
+    if (key.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
+/**
+ * A pom value with its ${...} placeholders resolved
+ */
+export interface ResolvedPomValue {
+  /** Value after interpolation (placeholders that cannot be resolved are kept) */
+  value: string;
+  /** False if any placeholder could not be resolved */
+  resolved: boolean;
+  /** Property defining the value, when the value is a single ${property} reference */
+  property?: string;
+}
+
+/**
+ * Matches a ${...} placeholder in a pom value
+ */
+const POM_PLACEHOLDER = /\$\{([^}]+)\}/g;
+
+/**
+ * Properties Maven provides without a <properties> entry
+ */
+function getBuiltInProperties(model: PomModel): Record<string, string | undefined> {
+  const version = model.version ?? model.parent?.version;
+  const groupId = model.groupId ?? model.parent?.groupId;
+
+  return {
+    'project.version': version,
+    'project.groupId': groupId,
+    'project.artifactId': model.artifactId,
+    'project.parent.version': model.parent?.version,
+    'project.parent.groupId': model.parent?.groupId,
+    'pom.version': version,
+  };
+}
+
+/**
+ * Resolve ${property} placeholders in a pom value
+ * Uses the pom's own <properties> and the project.* built-ins; nested
+ * references are followed, cycles are left unresolved. User properties
+ * (-D, e.g. from .mvn/maven.config) take precedence, as they do in Maven.
+ */
+export function resolvePomValue(
+  model: PomModel,
+  value: string,
+  userProperties: Record<string, string> = {}
+): ResolvedPomValue {
+  const builtIns = getBuiltInProperties(model);
+  let resolved = true;
+
+  const interpolate = (text: string, seen: string[]): string =>
+    text.replace(POM_PLACEHOLDER, (placeholder, name: string) => {
+      const replacement = userProperties[name] ?? model.properties[name] ?? builtIns[name];
+      if (replacement === undefined || seen.includes(name)) {
+        resolved = false;
+        return placeholder;
+      }
+      return interpolate(replacement, [...seen, name]);
+    });
+
+  const single = value.match(/^\$\{([^}]+)\}$/);
+  const property =
+    single && (single[1] in userProperties || single[1] in model.properties)
+      ? single[1]
+      : undefined;
+
+  return { value: interpolate(value, []), resolved, ...(property && { property }) };
+}
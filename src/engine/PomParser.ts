@@ -2,12 +2,15 @@
  * POM Parser Engine
  *
  * Handles reading and modifying pom.xml files.
- * Uses regex-based approach to preserve formatting.
+ * Reads and edits go through the PomModel, so only the project's own elements
+ * are touched and formatting is preserved.
  */
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { join, relative } from 'path';
 import { Result, ok, err, PomInfo } from '../types/index.js';
+import { PomModel, parsePom, setPomValue, resolvePomValue } from './PomModel.js';
+import { loadMavenConfig, setMavenConfigProperty } from './MavenConfig.js';
 
 /**
  * Get the path to pom.xml in the given directory
@@ -56,39 +59,50 @@ export function writePom(content: string, cwd: string = process.cwd()): Result<v
 }
 
 /**
- * Extract project information from pom.xml
+ * Read and parse pom.xml
  */
-export function getPomInfo(cwd: string = process.cwd()): Result<PomInfo> {
+export function loadPom(cwd: string = process.cwd()): Result<PomModel> {
   const pomResult = readPom(cwd);
-  if (!pomResult.success || !pomResult.data) {
+  if (!pomResult.success || pomResult.data === undefined) {
     return err(pomResult.error ?? new Error('Failed to read pom.xml'));
   }
 
-  const content = pomResult.data;
-  const info: PomInfo = {};
+  return parsePom(pomResult.data);
+}
 
-  // Extract version (first occurrence, which is the project version)
-  const versionMatch = content.match(/<version>([^<]+)<\/version>/);
-  if (versionMatch) {
-    info.version = versionMatch[1];
+/**
+ * Extract project information from pom.xml
+ * groupId and version fall back to the parent's, as Maven inherits them.
+ * Property-based versions (${revision}) are resolved from <properties> and
+ * .mvn/maven.config.
+ */
+export function getPomInfo(cwd: string = process.cwd()): Result<PomInfo> {
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
   }
 
-  // Extract artifactId (first occurrence)
-  const artifactMatch = content.match(/<artifactId>([^<]+)<\/artifactId>/);
-  if (artifactMatch) {
-    info.artifactId = artifactMatch[1];
+  const mavenConfigResult = loadMavenConfig(cwd);
+  if (!mavenConfigResult.success) {
+    return err(mavenConfigResult.error ?? new Error('Failed to read .mvn/maven.config'));
   }
 
-  // Extract name (first occurrence)
-  const nameMatch = content.match(/<name>([^<]+)<\/name>/);
-  if (nameMatch) {
-    info.name = nameMatch[1];
-  }
+  const model = modelResult.data;
+  const info: PomInfo = {};
 
-  // Extract groupId (first occurrence)
-  const groupMatch = content.match(/<groupId>([^<]+)<\/groupId>/);
-  if (groupMatch) {
-    info.groupId = groupMatch[1];
+  const version = model.version ?? model.parent?.version;
+  if (version) {
+    info.version = resolvePomValue(model, version, mavenConfigResult.data?.properties).value;
+  }
+  if (model.artifactId) {
+    info.artifactId = model.artifactId;
+  }
+  if (model.name) {
+    info.name = model.name;
+  }
+  const groupId = model.groupId ?? model.parent?.groupId;
+  if (groupId) {
+    info.groupId = groupId;
   }
 
   return ok(info);
@@ -120,49 +134,157 @@ export function getVersion(cwd: string = process.cwd()): Result<string> {
     return err(new Error('Version not found in pom.xml'));
   }
 
+  if (infoResult.data.version.includes('${')) {
+    return err(
+      new Error(
+        `Version ${infoResult.data.version} cannot be resolved from pom.xml <properties> or .mvn/maven.config`
+      )
+    );
+  }
+
   return ok(infoResult.data.version);
 }
 
 /**
- * Set project version in pom.xml
- * Only updates the first <version> tag (project version)
+ * Find the property to set for a property-based version, and its new value
+ * In a combined version such as ${revision}${changelist}, the first placeholder
+ * with a value is set and the others must keep theirs.
  */
-export function setVersion(version: string, cwd: string = process.cwd()): Result<void> {
-  const pomResult = readPom(cwd);
-  if (!pomResult.success || !pomResult.data) {
-    return err(pomResult.error ?? new Error('Failed to read pom.xml'));
+function findVersionProperty(
+  model: PomModel,
+  declared: string,
+  version: string,
+  userProperties: Record<string, string>
+): Result<{ name: string; value: string }> {
+  if (!resolvePomValue(model, declared, userProperties).resolved) {
+    return err(new Error(`Version ${declared} in pom.xml cannot be resolved`));
+  }
+
+  const parts = declared.split(/(\$\{[^}]+\})/).filter((part) => part !== '');
+  const values = parts.map((part) => resolvePomValue(model, part, userProperties).value);
+  const placeholders = parts.flatMap((part, i) => (part.startsWith('${') ? [i] : []));
+  const target = placeholders.find((i) => values[i] !== '') ?? placeholders[0];
+
+  const prefix = values.slice(0, target).join('');
+  const suffix = values.slice(target + 1).join('');
+  if (
+    version.length <= prefix.length + suffix.length ||
+    !version.startsWith(prefix) ||
+    !version.endsWith(suffix)
+  ) {
+    return err(
+      new Error(
+        `Cannot set version ${version}: only ${parts[target]} of ${declared} can be updated, the rest ('${prefix}', '${suffix}') must stay`
+      )
+    );
+  }
+
+  // Follow ${a} -> ${b} chains to the property holding the literal value
+  let name = parts[target].slice(2, -1);
+  const seen: string[] = [];
+  for (;;) {
+    const definition = userProperties[name] ?? model.properties[name];
+    if (definition === undefined) {
+      return err(new Error(`${name} is not defined in pom.xml <properties> or .mvn/maven.config`));
+    }
+    const next = definition.match(/^\$\{([^}]+)\}$/)?.[1];
+    if (next === undefined || seen.includes(next)) {
+      if (definition.includes('${')) {
+        return err(new Error(`Cannot set version: ${name} is defined as ${definition}`));
+      }
+      break;
+    }
+    seen.push(name);
+    name = next;
+  }
+
+  return ok({ name, value: version.slice(prefix.length, version.length - suffix.length) });
+}
+
+/**
+ * Set project version
+ * Only the project's own <version> is updated, never the parent's or a dependency's.
+ * A property-based version (${revision}) is changed where the property is
+ * defined: .mvn/maven.config, which takes precedence, or pom.xml <properties>.
+ * Returns the file that was updated, relative to cwd.
+ */
+export function setVersion(version: string, cwd: string = process.cwd()): Result<string> {
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
+  }
+
+  const model = modelResult.data;
+  if (!model.positions.has('project/version')) {
+    return err(new Error('pom.xml has no <version> of its own (it is inherited from the parent)'));
   }
 
-  let content = pomResult.data;
-  let replaced = false;
+  const declared = model.version ?? '';
+  let path = 'project/version';
+
+  if (declared.includes('${')) {
+    const mavenConfigResult = loadMavenConfig(cwd);
+    if (!mavenConfigResult.success) {
+      return err(mavenConfigResult.error ?? new Error('Failed to read .mvn/maven.config'));
+    }
+    const mavenConfig = mavenConfigResult.data;
+
+    const propertyResult = findVersionProperty(
+      model,
+      declared,
+      version,
+      mavenConfig?.properties ?? {}
+    );
+    if (!propertyResult.success || !propertyResult.data) {
+      return err(propertyResult.error ?? new Error('Failed to update version'));
+    }
+
+    const { name, value } = propertyResult.data;
+    if (mavenConfig && name in mavenConfig.properties) {
+      const configResult = setMavenConfigProperty(mavenConfig, name, value);
+      if (!configResult.success) {
+        return err(configResult.error ?? new Error('Failed to update .mvn/maven.config'));
+      }
+      return ok(relative(cwd, mavenConfig.file));
+    }
+
+    path = `project/properties/${name}`;
+    version = value;
+  }
 
-  // Replace only the first version tag
-  content = content.replace(/<version>([^<]+)<\/version>/, () => {
-    if (replaced) return `<version>${version}</version>`;
-    replaced = true;
-    return `<version>${version}</version>`;
-  });
+  const contentResult = setPomValue(model, path, version);
+  if (!contentResult.success || contentResult.data === undefined) {
+    return err(contentResult.error ?? new Error('Failed to update version'));
+  }
+
+  const writeResult = writePom(contentResult.data, cwd);
+  if (!writeResult.success) {
+    return err(writeResult.error ?? new Error('Failed to write pom.xml'));
+  }
 
-  return writePom(content, cwd);
+  return ok('pom.xml');
 }
 
 /**
  * Set project name in pom.xml
+ * Nothing changes when the project has no <name> of its own.
  */
 export function setName(name: string, cwd: string = process.cwd()): Result<void> {
-  const pomResult = readPom(cwd);
-  if (!pomResult.success || !pomResult.data) {
-    return err(pomResult.error ?? new Error('Failed to read pom.xml'));
+  const modelResult = loadPom(cwd);
+  if (!modelResult.success || !modelResult.data) {
+    return err(modelResult.error ?? new Error('Failed to read pom.xml'));
   }
 
-  let content = pomResult.data;
+  if (!modelResult.data.positions.has('project/name')) {
+    return ok(undefined);
+  }
 
-  // Replace the name tag
-  if (content.includes('<name>')) {
-    content = content.replace(/<name>[^<]*<\/name>/, `<name>${name}</name>`);
+  const contentResult = setPomValue(modelResult.data, 'project/name', name);
+  if (!contentResult.success || contentResult.data === undefined) {
+    return err(contentResult.error ?? new Error('Failed to update name'));
   }
 
-  return writePom(content, cwd);
+  return writePom(contentResult.data, cwd);
 }
 
 /**
@@ -0,0 +1,339 @@
+/**
+ * Property Analyzer Engine
+ *
+ * Cross-checks property references in Mule XML and DataWeave files
+ * against the property files declared by configuration-properties
+ * and secure-properties:config elements.
+ */
+
+import { readFileSync, readdirSync, statSync, existsSync } from 'fs';
+import { join, relative, sep } from 'path';
+import {
+  Result,
+  ok,
+  err,
+  PropsCheckResult,
+  MissingProperty,
+  PropsUnusedResult,
+  UnusedProperty,
+} from '../types/index.js';
+import { findElements, findPropertyReferences, getMuleSourceFiles } from './XmlProcessor.js';
+import {
+  getPropertyFileFormat,
+  parsePropertyFile,
+  NON_PROPERTY_DIRS,
+} from './PropertyFileParser.js';
+
+/**
+ * A property file declared in Mule configuration
+ */
+export interface PropertySource {
+  /** file attribute as written, e.g. config/${env}.yaml */
+  file: string;
+  /** Whether declared by secure-properties:config */
+  secure: boolean;
+  /** XML file declaring the source */
+  declaredIn: string;
+  /** Line of the declaring element */
+  line: number;
+  /** Placeholders used in the declaring element, e.g. env, secure.key */
+  placeholders: string[];
+}
+
+/**
+ * Properties supplied by the Mule runtime or deployment rather than property files
+ */
+const RUNTIME_PROPERTIES = [
+  'env',
+  'mule.env',
+  'mule.home',
+  'mule.base',
+  'mule.key',
+  'app.name',
+  'app.home',
+];
+
+/**
+ * Matches a ${...} placeholder inside an attribute value
+ */
+const PLACEHOLDER = /\$\{([^}]+)\}/g;
+
+/**
+ * Find property files declared in Mule XML files
+ */
+export function findPropertySources(muleFiles: string[]): PropertySource[] {
+  const sources: PropertySource[] = [];
+
+  for (const file of muleFiles) {
+    if (!file.endsWith('.xml')) continue;
+    const content = readFileSync(file, 'utf-8');
+
+    const elements = [
+      ...findElements(content, 'configuration-properties').map((e) => ({ ...e, secure: false })),
+      ...findElements(content, 'secure-properties:config').map((e) => ({ ...e, secure: true })),
+    ];
+
+    for (const element of elements) {
+      if (!element.attributes.file) continue;
+
+      const placeholders = Object.values(element.attributes).flatMap((value) =>
+        [...value.matchAll(PLACEHOLDER)].map((m) => m[1])
+      );
+
+      sources.push({
+        file: element.attributes.file,
+        secure: element.secure,
+        declaredIn: file,
+        line: element.line,
+        placeholders,
+      });
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Resolve a property source to existing files under src/main/resources
+ * With an environment, every placeholder in the path is replaced by its name;
+ * without one, every file matching the path pattern is returned.
+ */
+export function resolveSourceFiles(
+  source: PropertySource,
+  resourcesDir: string,
+  env?: string
+): string[] {
+  const path = source.file.replace(/^\/+/, '');
+
+  if (!path.includes('${')) {
+    const file = join(resourcesDir, path);
+    return existsSync(file) ? [file] : [];
+  }
+
+  if (env !== undefined) {
+    const file = join(resourcesDir, path.replace(PLACEHOLDER, env));
+    return existsSync(file) ? [file] : [];
+  }
+
+  // Turn config/${env}.yaml into ^config/[^/]+\.yaml$
+  const pattern = new RegExp(
+    '^' +
+      path
+        .split(PLACEHOLDER)
+        .map((part, i) => (i % 2 === 1 ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+        .join('') +
+      '$'
+  );
+
+  return listFiles(resourcesDir).filter((file) =>
+    pattern.test(relative(resourcesDir, file).split(sep).join('/'))
+  );
+}
+
+/**
+ * Resolve every property source to files, each file assigned to a single source
+ * When patterns overlap (config/${env}.yaml also matches config/dev-secure.yaml),
+ * the source with the most literal characters wins.
+ */
+export function resolveAllSourceFiles(
+  sources: PropertySource[],
+  resourcesDir: string,
+  env?: string
+): Map<string, PropertySource> {
+  const literalLength = (source: PropertySource) => source.file.replace(PLACEHOLDER, '').length;
+  const files = new Map<string, PropertySource>();
+
+  for (const source of [...sources].sort((a, b) => literalLength(b) - literalLength(a))) {
+    for (const file of resolveSourceFiles(source, resourcesDir, env)) {
+      if (!files.has(file)) files.set(file, source);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * List all files in a directory recursively
+ */
+function listFiles(directory: string): string[] {
+  if (!existsSync(directory)) return [];
+
+  return readdirSync(directory).flatMap((entry) => {
+    const fullPath = join(directory, entry);
+    return statSync(fullPath).isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+}
+
+/**
+ * Load the keys defined in property files
+ */
+export function loadPropertyKeys(files: string[]): Map<string, { file: string; line: number }> {
+  const keys = new Map<string, { file: string; line: number }>();
+
+  for (const file of files) {
+    const format = getPropertyFileFormat(file);
+    if (!format) continue;
+
+    for (const entry of parsePropertyFile(readFileSync(file, 'utf-8'), format)) {
+      if (!keys.has(entry.key)) {
+        keys.set(entry.key, { file, line: entry.line });
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Get the files that can reference properties:
+ * XML and DataWeave in src/main/mule, DataWeave modules in src/main/resources
+ */
+export function getReferencingFiles(muleDir: string, resourcesDir: string): string[] {
+  return [
+    ...getMuleSourceFiles(muleDir),
+    ...getMuleSourceFiles(resourcesDir).filter((f) => f.endsWith('.dwl')),
+  ];
+}
+
+/**
+ * Check that every referenced property exists in the property files of an environment
+ */
+export function checkMissingProperties(
+  env: string,
+  cwd: string = process.cwd()
+): Result<PropsCheckResult> {
+  const muleDir = join(cwd, 'src', 'main', 'mule');
+  const resourcesDir = join(cwd, 'src', 'main', 'resources');
+
+  if (!existsSync(muleDir)) {
+    return err(new Error(`Directory not found: ${muleDir}`));
+  }
+
+  try {
+    const referencingFiles = getReferencingFiles(muleDir, resourcesDir);
+    const sources = findPropertySources(referencingFiles);
+
+    const sourceFiles = [...resolveAllSourceFiles(sources, resourcesDir, env)];
+    const plainFiles = sourceFiles.filter(([, s]) => !s.secure).map(([file]) => file);
+    const secureFiles = sourceFiles.filter(([, s]) => s.secure).map(([file]) => file);
+
+    if (sources.length > 0 && plainFiles.length === 0 && secureFiles.length === 0) {
+      return err(new Error(`No property files found for environment '${env}'`));
+    }
+
+    const plainKeys = loadPropertyKeys(plainFiles);
+    const secureKeys = loadPropertyKeys(secureFiles);
+    const ignored = new Set([...RUNTIME_PROPERTIES, ...sources.flatMap((s) => s.placeholders)]);
+
+    const missing: MissingProperty[] = [];
+    let referencesChecked = 0;
+
+    for (const file of referencingFiles) {
+      for (const ref of findPropertyReferences(readFileSync(file, 'utf-8'))) {
+        if (ignored.has(ref.property)) continue;
+        referencesChecked++;
+
+        const keys = ref.secure ? secureKeys : plainKeys;
+        if (!keys.has(ref.property)) {
+          missing.push({
+            property: ref.property,
+            secure: ref.secure,
+            file: relative(cwd, file),
+            line: ref.line,
+            value: ref.value,
+          });
+        }
+      }
+    }
+
+    return ok({
+      valid: missing.length === 0,
+      env,
+      propertyFiles: [...plainFiles, ...secureFiles].map((f) => relative(cwd, f)),
+      referencesChecked,
+      missing,
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Property files under src/main/resources that no Mule configuration declares
+ * API specs under src/main/resources/api are not property files.
+ */
+function findUndeclaredPropertyFiles(resourcesDir: string, declared: Set<string>): string[] {
+  return listFiles(resourcesDir).filter(
+    (file) =>
+      getPropertyFileFormat(file) !== undefined &&
+      !declared.has(file) &&
+      !NON_PROPERTY_DIRS.includes(relative(resourcesDir, file).split(sep)[0])
+  );
+}
+
+/**
+ * Find keys defined in the property files of src/main/resources that nothing references
+ * Declared files count for every environment; files no configuration-properties
+ * element declares are checked too, and listed separately.
+ * References come from Mule XML, DataWeave modules and other property values.
+ */
+export function findUnusedProperties(
+  cwd: string = process.cwd(),
+  options: { maxUnused?: number } = {}
+): Result<PropsUnusedResult> {
+  const muleDir = join(cwd, 'src', 'main', 'mule');
+  const resourcesDir = join(cwd, 'src', 'main', 'resources');
+
+  if (!existsSync(muleDir)) {
+    return err(new Error(`Directory not found: ${muleDir}`));
+  }
+
+  try {
+    const referencingFiles = getReferencingFiles(muleDir, resourcesDir);
+    const declaredFiles = [
+      ...resolveAllSourceFiles(findPropertySources(referencingFiles), resourcesDir).keys(),
+    ];
+    const undeclaredFiles = findUndeclaredPropertyFiles(resourcesDir, new Set(declaredFiles));
+    const sourceFiles = [...declaredFiles, ...undeclaredFiles];
+
+    // Collect every referenced key, secure or not
+    const referenced = new Set<string>();
+    for (const file of referencingFiles) {
+      for (const ref of findPropertyReferences(readFileSync(file, 'utf-8'))) {
+        referenced.add(ref.property);
+      }
+    }
+
+    // Property values can reference other keys, e.g. base.url=https://${host}
+    const entries = sourceFiles.flatMap((file) => {
+      const format = getPropertyFileFormat(file);
+      return format
+        ? parsePropertyFile(readFileSync(file, 'utf-8'), format).map((entry) => ({ file, entry }))
+        : [];
+    });
+    for (const { entry } of entries) {
+      for (const ref of findPropertyReferences(entry.value)) {
+        referenced.add(ref.property);
+      }
+    }
+
+    const unused: UnusedProperty[] = entries
+      .filter(({ entry }) => !referenced.has(entry.key))
+      .map(({ file, entry }) => ({
+        property: entry.key,
+        file: relative(cwd, file),
+        line: entry.line,
+      }));
+
+    return ok({
+      valid: options.maxUnused === undefined || unused.length <= options.maxUnused,
+      propertyFiles: sourceFiles.map((file) => relative(cwd, file)),
+      undeclaredFiles: undeclaredFiles.map((file) => relative(cwd, file)),
+      keysChecked: entries.length,
+      unused,
+      maxUnused: options.maxUnused,
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Property File Parser Engine
+ *
+ * Reads Mule configuration properties files (.properties and YAML).
+ * Every entry keeps its line number and the source range of its value,
+ * so callers can report findings and make formatting-safe edits.
+ */
+
+import { extname } from 'path';
+import { parseDocument, LineCounter, isMap, isScalar, isPair } from 'yaml';
+import type { Node } from 'yaml';
+
+/**
+ * Supported property file formats
+ */
+export type PropertyFileFormat = 'properties' | 'yaml';
+
+/**
+ * A single key/value entry from a property file
+ */
+export interface PropertyEntry {
+  /** Flattened property key (YAML nesting joined with '.') */
+  key: string;
+  /** Property value as Mule would read it */
+  value: string;
+  /** Line number of the entry (1-based) */
+  line: number;
+  /** Offset of the first character of the raw value in the file */
+  start: number;
+  /** Offset just past the last character of the raw value in the file */
+  end: number;
+}
+
+/**
+ * Directories under src/main/resources holding API specs, not property files
+ */
+export const NON_PROPERTY_DIRS = ['api'];
+
+/**
+ * Matches a value in Secure Properties encrypted form: ![base64]
+ */
+const ENCRYPTED_VALUE = /^!\[[\s\S]*\]$/;
+
+/**
+ * Determine the property file format from a file name
+ */
+export function getPropertyFileFormat(file: string): PropertyFileFormat | undefined {
+  const ext = extname(file).toLowerCase();
+  if (ext === '.properties') return 'properties';
+  if (ext === '.yaml' || ext === '.yml') return 'yaml';
+  return undefined;
+}
+
+/**
+ * Check if a file is a properties or YAML file
+ */
+export function isPropertyFile(file: string): boolean {
+  return getPropertyFileFormat(file) !== undefined;
+}
+
+/**
+ * Check if a value is wrapped in the Secure Properties ![...] form
+ */
+export function isEncryptedValue(value: string): boolean {
+  return ENCRYPTED_VALUE.test(value.trim());
+}
+
+/**
+ * Parse property file content into entries
+ */
+export function parsePropertyFile(content: string, format: PropertyFileFormat): PropertyEntry[] {
+  return format === 'yaml' ? parseYamlContent(content) : parsePropertiesContent(content);
+}
+
+/**
+ * Parse Java .properties content
+ * Supports '=', ':' and whitespace separators, comments and line continuations.
+ */
+function parsePropertiesContent(content: string): PropertyEntry[] {
+  const entries: PropertyEntry[] = [];
+  const lines = content.split('\n');
+  let offset = 0;
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const lineStart = offset;
+    const lineNumber = index + 1;
+
+    offset += line.length + 1;
+    index++;
+
+    const trimmed = line.trimStart();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith('!')) {
+      continue;
+    }
+
+    // Find the end of the key: first unescaped '=', ':' or whitespace
+    const keyStart = line.length - trimmed.length;
+    let pos = keyStart;
+    while (pos < line.length) {
+      const ch = line[pos];
+      if (ch === '\\') {
+        pos += 2;
+        continue;
+      }
+      if (ch === '=' || ch === ':' || ch === ' ' || ch === '\t') break;
+      pos++;
+    }
+    const key = line.slice(keyStart, pos).replace(/\\(.)/g, '$1');
+
+    // Skip the separator and surrounding whitespace
+    while (pos < line.length && (line[pos] === ' ' || line[pos] === '\t')) pos++;
+    if (line[pos] === '=' || line[pos] === ':') pos++;
+    while (pos < line.length && (line[pos] === ' ' || line[pos] === '\t')) pos++;
+
+    let raw = line.slice(pos).replace(/\r$/, '');
+    let value = raw;
+    let end = lineStart + pos + raw.length;
+
+    // Join continuation lines (odd number of trailing backslashes)
+    while (/(^|[^\\])(\\\\)*\\$/.test(raw) && index < lines.length) {
+      const next = lines[index].replace(/\r$/, '');
+      end = offset + next.length;
+      offset += lines[index].length + 1;
+      index++;
+      raw = next;
+      value = value.slice(0, -1) + next.trimStart();
+    }
+
+    entries.push({
+      key,
+      value,
+      line: lineNumber,
+      start: lineStart + pos,
+      end,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse YAML content, flattening nested maps into dotted keys
+ */
+function parseYamlContent(content: string): PropertyEntry[] {
+  const entries: PropertyEntry[] = [];
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+
+  function walk(node: Node | null | undefined, prefix: string) {
+    if (!isMap(node)) return;
+
+    for (const pair of node.items) {
+      if (!isPair(pair) || !isScalar(pair.key)) continue;
+
+      const key = prefix ? `${prefix}.${String(pair.key.value)}` : String(pair.key.value);
+
+      if (isMap(pair.value)) {
+        walk(pair.value, key);
+      } else if (isScalar(pair.value) && pair.value.range) {
+        const [start, end] = pair.value.range;
+        entries.push({
+          key,
+          value: pair.value.value === null ? '' : String(pair.value.value),
+          line: lineCounter.linePos(start).line,
+          start,
+          end,
+        });
+      }
+    }
+  }
+
+  walk(doc.contents as Node | null, '');
+  return entries;
+}
@@ -0,0 +1,268 @@
+/**
+ * Restore Journal Engine
+ *
+ * Records every project file an in-place build modifies or creates, before it is
+ * touched, in a journal under .mule-build/restore/. If the build dies, the journal is
+ * used to put the working tree back (SIGINT/SIGTERM handlers or `mule-build restore`).
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  copyFileSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+  rmSync,
+} from 'fs';
+import { join, relative, dirname, isAbsolute } from 'path';
+import { Result, ok, err } from '../types/index.js';
+
+/**
+ * Directory holding one sub-directory per in-place build
+ */
+const RESTORE_DIR = join('.mule-build', 'restore');
+
+/**
+ * Journal file name inside a build's directory
+ */
+const JOURNAL_FILE = 'journal.json';
+
+/**
+ * An open restore journal for one build
+ */
+export interface RestoreJournal {
+  /** Unique build ID */
+  id: string;
+  /** Project directory */
+  cwd: string;
+  /** Directory holding the journal file and file backups */
+  dir: string;
+  /** When the build started */
+  startedAt: string;
+  /** Recorded files, relative to cwd */
+  files: string[];
+  /** Files created by the build (removed on restore), relative to cwd */
+  created: string[];
+}
+
+/**
+ * Contents of a journal file
+ */
+interface JournalFile {
+  id: string;
+  pid: number;
+  startedAt: string;
+  files: string[];
+  created?: string[];
+}
+
+/**
+ * Write the journal file (after backups are in place)
+ */
+function writeJournal(journal: RestoreJournal): void {
+  const content: JournalFile = {
+    id: journal.id,
+    pid: process.pid,
+    startedAt: journal.startedAt,
+    files: journal.files,
+    created: journal.created,
+  };
+  writeFileSync(join(journal.dir, JOURNAL_FILE), JSON.stringify(content, null, 2));
+}
+
+/**
+ * Start a journal for a new in-place build
+ */
+export function beginJournal(cwd: string): Result<RestoreJournal> {
+  try {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const restoreDir = join(cwd, RESTORE_DIR);
+    const dir = join(restoreDir, id);
+
+    mkdirSync(join(dir, 'files'), { recursive: true });
+
+    // Keep backups out of version control
+    writeFileSync(join(restoreDir, '.gitignore'), '*\n');
+
+    const journal: RestoreJournal = {
+      id,
+      cwd,
+      dir,
+      startedAt: new Date().toISOString(),
+      files: [],
+      created: [],
+    };
+    writeJournal(journal);
+    return ok(journal);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to create restore journal: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Record a file before it is modified
+ * The backup is copied first and the journal rewritten, so a crash at any point
+ * leaves either an unmodified file or a recorded backup.
+ */
+export function recordFile(journal: RestoreJournal, file: string): Result<void> {
+  const relativePath = isAbsolute(file) ? relative(journal.cwd, file) : file;
+
+  if (journal.files.includes(relativePath)) {
+    return ok(undefined);
+  }
+
+  try {
+    const backupPath = join(journal.dir, 'files', relativePath);
+    mkdirSync(dirname(backupPath), { recursive: true });
+    copyFileSync(join(journal.cwd, relativePath), backupPath);
+
+    journal.files.push(relativePath);
+    writeJournal(journal);
+    return ok(undefined);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to record ${relativePath} in restore journal: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Record a file the build is about to create
+ * Files that already exist are backed up instead, so restoring puts them back.
+ */
+export function recordCreatedFile(journal: RestoreJournal, file: string): Result<void> {
+  const relativePath = isAbsolute(file) ? relative(journal.cwd, file) : file;
+
+  if (existsSync(join(journal.cwd, relativePath))) {
+    return recordFile(journal, relativePath);
+  }
+  if (journal.created.includes(relativePath)) {
+    return ok(undefined);
+  }
+
+  try {
+    journal.created.push(relativePath);
+    writeJournal(journal);
+    return ok(undefined);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to record ${relativePath} in restore journal: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Read a journal file, if it exists and is valid
+ */
+function readJournalFile(dir: string): JournalFile | undefined {
+  try {
+    return JSON.parse(readFileSync(join(dir, JOURNAL_FILE), 'utf-8')) as JournalFile;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copy every recorded file back, remove created files and remove the journal
+ * Synchronous so it can run inside signal handlers.
+ */
+export function restoreJournal(journal: RestoreJournal): Result<string[]> {
+  try {
+    for (const file of journal.files) {
+      copyFileSync(join(journal.dir, 'files', file), join(journal.cwd, file));
+    }
+    for (const file of journal.created) {
+      rmSync(join(journal.cwd, file), { force: true });
+    }
+    discardJournal(journal);
+    return ok([...journal.files, ...journal.created]);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to restore from journal ${journal.dir}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Remove a journal and its backups
+ */
+export function discardJournal(journal: RestoreJournal): void {
+  try {
+    rmSync(journal.dir, { recursive: true, force: true });
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Check if a process is still running
+ */
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find journals left behind by builds that did not finish
+ * Journals of builds that are still running are skipped.
+ */
+export function findPendingJournals(cwd: string): RestoreJournal[] {
+  const restoreDir = join(cwd, RESTORE_DIR);
+  if (!existsSync(restoreDir)) {
+    return [];
+  }
+
+  return readdirSync(restoreDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => join(restoreDir, entry.name))
+    .flatMap((dir) => {
+      const content = readJournalFile(dir);
+      return content && !(content.pid !== process.pid && isProcessRunning(content.pid))
+        ? [
+            {
+              id: content.id,
+              cwd,
+              dir,
+              startedAt: content.startedAt,
+              files: content.files,
+              created: content.created ?? [],
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Restore the working tree if the process is interrupted
+ * Returns a function that removes the handlers once the build has finished.
+ */
+export function installRestoreHandlers(journal: RestoreJournal): () => void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    restoreJournal(journal);
+    process.exit(signal === 'SIGINT' ? 130 : 143);
+  };
+
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+
+  return () => {
+    process.removeListener('SIGINT', onSignal);
+    process.removeListener('SIGTERM', onSignal);
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Secret Detector Engine
+ *
+ * Finds values that look like secrets by their shape or randomness rather than
+ * by the name of the key holding them: private key headers, JWTs, AWS access
+ * key IDs and long high-entropy strings.
+ */
+
+import { SecretDetectionConfig } from '../types/index.js';
+
+/**
+ * Kind of secret a value looks like
+ */
+export type SecretType = 'private-key' | 'jwt' | 'aws-access-key' | 'high-entropy-string';
+
+/**
+ * A secret-like value found in text
+ */
+export interface DetectedSecret {
+  type: SecretType;
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+  /** Matched text */
+  text: string;
+}
+
+/**
+ * Default thresholds for the high-entropy check
+ * Random base64 of 24+ characters almost always scores 4.0 bits per character or more.
+ */
+export const DEFAULT_SECRET_DETECTION: Required<SecretDetectionConfig> = {
+  enabled: true,
+  minLength: 24,
+  minEntropy: 4.0,
+};
+
+/**
+ * Human-readable names for each secret type
+ */
+export const SECRET_TYPE_LABELS: Record<SecretType, string> = {
+  'private-key': 'private key',
+  jwt: 'JSON Web Token',
+  'aws-access-key': 'AWS access key ID',
+  'high-entropy-string': 'high-entropy string',
+};
+
+/**
+ * Patterns recognised by their shape alone
+ */
+const SHAPES: { type: SecretType; pattern: RegExp }[] = [
+  { type: 'private-key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  {
+    type: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  { type: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[A-Z0-9]{16}\b/g },
+];
+
+/**
+ * Candidate tokens for the entropy check: runs of base64 characters
+ * '/' and '_' split tokens, so paths and snake_case identifiers are checked
+ * segment by segment instead of as one long mixed-case string.
+ */
+const TOKEN = /[A-Za-z0-9+-]+={0,2}/g;
+
+/**
+ * Share of adjacent characters switching between upper case, lower case, digits
+ * and symbols below which a token reads as words (CamelCase identifiers ~0.3,
+ * random base64 ~0.65)
+ */
+const MIN_CLASS_CHANGE_RATE = 0.35;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Share of adjacent character pairs that change character class
+ */
+function classChangeRate(value: string): number {
+  const charClass = (char: string) =>
+    /[A-Z]/.test(char) ? 0 : /[a-z]/.test(char) ? 1 : /[0-9]/.test(char) ? 2 : 3;
+
+  let changes = 0;
+  for (let i = 1; i < value.length; i++) {
+    if (charClass(value[i]) !== charClass(value[i - 1])) changes++;
+  }
+  return changes / Math.max(1, value.length - 1);
+}
+
+/**
+ * Check whether a token looks like random key material
+ * Requiring upper case, lower case and digits skips paths and UUIDs;
+ * the class change rate skips CamelCase identifiers.
+ */
+function isHighEntropyToken(token: string, config: Required<SecretDetectionConfig>): boolean {
+  return (
+    token.length >= config.minLength &&
+    /[A-Z]/.test(token) &&
+    /[a-z]/.test(token) &&
+    /[0-9]/.test(token) &&
+    shannonEntropy(token) >= config.minEntropy &&
+    classChangeRate(token) >= MIN_CLASS_CHANGE_RATE
+  );
+}
+
+/**
+ * Find secret-like values in text
+ * Encrypted ![...] values are skipped. Each region is reported once, shape
+ * matches taking precedence over the entropy check.
+ */
+export function detectSecrets(text: string, config: SecretDetectionConfig = {}): DetectedSecret[] {
+  const settings = { ...DEFAULT_SECRET_DETECTION, ...config };
+  if (!settings.enabled) {
+    return [];
+  }
+
+  const secrets: DetectedSecret[] = [];
+  const overlaps = (start: number, end: number) =>
+    secrets.some((s) => start < s.end && end > s.start);
+
+  for (const { type, pattern } of SHAPES) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      secrets.push({ type, start, end: start + match[0].length, text: match[0] });
+    }
+  }
+
+  for (const match of text.matchAll(TOKEN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    // Already encrypted: ![base64]
+    if (text.slice(Math.max(0, start - 2), start) === '![') continue;
+    if (overlaps(start, end) || !isHighEntropyToken(match[0], settings)) continue;
+
+    secrets.push({ type: 'high-entropy-string', start, end, text: match[0] });
+  }
+
+  return secrets.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Mask a detected secret for reports, keeping a short prefix for recognition
+ */
+export function maskSecret(secret: DetectedSecret): string {
+  return secret.type === 'private-key' ? secret.text : `${secret.text.slice(0, 4)}${'*'.repeat(8)}`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Secure Decryption Engine
+ *
+ * Prepares a project to run locally with real values: every file declared by a
+ * secure-properties:config element is decrypted into a plaintext copy, and the
+ * element is replaced by a configuration-properties element loading that copy.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { Result, ok, err, SecureAlgorithm, SecureMode } from '../types/index.js';
+import { findElements, getXmlFiles, replaceSecurePropertiesConfig } from './XmlProcessor.js';
+import { resolveSourceFiles } from './PropertyAnalyzer.js';
+import { getPropertyFileFormat } from './PropertyFileParser.js';
+import { decryptFileContent, SecureCipherOptions } from './SecureProperties.js';
+
+/**
+ * Suffix inserted before the extension of decrypted copies
+ */
+const DECRYPTED_SUFFIX = '.decrypted';
+
+/**
+ * A file to write when preparing a decrypted build
+ */
+export interface DecryptionChange {
+  /** Absolute path of the file */
+  file: string;
+  /** New file content */
+  content: string;
+  /** True for new plaintext copies, false for modified Mule XML files */
+  created: boolean;
+}
+
+/**
+ * Files to write and the number of values decrypted
+ */
+export interface DecryptionPlan {
+  changes: DecryptionChange[];
+  count: number;
+}
+
+/**
+ * Get the path of the plaintext copy of a secure properties file
+ * e.g. config/dev-secure.yaml -> config/dev-secure.decrypted.yaml
+ */
+export function getDecryptedPath(file: string): string {
+  const extension = extname(file);
+  return `${file.slice(0, file.length - extension.length)}${DECRYPTED_SUFFIX}${extension}`;
+}
+
+/**
+ * Read the cipher settings of a secure-properties:config element
+ */
+function getCipherOptions(element: string, key: string): Result<SecureCipherOptions> {
+  const encrypt = findElements(element, 'secure-properties:encrypt')[0]?.attributes ?? {};
+  const algorithm = encrypt.algorithm ?? 'AES';
+  const mode = encrypt.mode ?? 'CBC';
+
+  if (!['AES', 'Blowfish'].includes(algorithm)) {
+    return err(new Error(`Unsupported secure properties algorithm: ${algorithm}`));
+  }
+  if (!['CBC', 'CFB', 'ECB'].includes(mode)) {
+    return err(new Error(`Unsupported secure properties mode: ${mode}`));
+  }
+
+  return ok({
+    key,
+    algorithm: algorithm as SecureAlgorithm,
+    mode: mode as SecureMode,
+    useRandomIVs: encrypt.useRandomIVs === 'true',
+  });
+}
+
+/**
+ * Decrypt the files of one secure-properties:config element
+ * Returns the configuration-properties element that replaces it.
+ */
+function decryptConfig(
+  element: string,
+  declaredIn: string,
+  resourcesDir: string,
+  key: string,
+  plan: DecryptionPlan
+): Result<string> {
+  const file = findElements(element, 'secure-properties:config')[0]?.attributes.file;
+  if (!file) {
+    return err(new Error(`secure-properties:config in ${declaredIn} has no file attribute`));
+  }
+
+  const cipherResult = getCipherOptions(element, key);
+  if (!cipherResult.success || !cipherResult.data) {
+    return err(cipherResult.error ?? new Error('Invalid cipher settings'));
+  }
+
+  // Without an environment, every file matching a ${env} pattern is decrypted
+  const sourceFiles = resolveSourceFiles(
+    { file, secure: true, declaredIn, line: 0, placeholders: [] },
+    resourcesDir
+  );
+  if (sourceFiles.length === 0) {
+    return err(new Error(`No secure properties file found for ${file}`));
+  }
+
+  for (const sourceFile of sourceFiles) {
+    const format = getPropertyFileFormat(sourceFile);
+    if (!format) {
+      return err(new Error(`Unsupported secure properties file: ${sourceFile}`));
+    }
+
+    const result = decryptFileContent(readFileSync(sourceFile, 'utf-8'), format, cipherResult.data);
+    if (!result.success || !result.data) {
+      return err(
+        new Error(`Failed to decrypt ${sourceFile}: ${result.error?.message ?? 'unknown error'}`)
+      );
+    }
+
+    plan.changes.push({
+      file: getDecryptedPath(sourceFile),
+      content: result.data.result,
+      created: true,
+    });
+    plan.count += result.data.count;
+  }
+
+  return ok(`<configuration-properties file="${getDecryptedPath(file)}" />`);
+}
+
+/**
+ * Plan a decrypted local build
+ * Nothing is written; the caller writes each change so it can journal it first.
+ */
+export function planSecureDecryption(
+  muleDir: string,
+  resourcesDir: string,
+  key: string
+): Result<DecryptionPlan> {
+  const plan: DecryptionPlan = { changes: [], count: 0 };
+
+  for (const xmlFile of getXmlFiles(muleDir)) {
+    const content = readFileSync(xmlFile, 'utf-8');
+
+    let error: Error | undefined;
+    const newContent = replaceSecurePropertiesConfig(content, (element) => {
+      const result = decryptConfig(element, xmlFile, resourcesDir, key, plan);
+      if (!result.success || !result.data) {
+        error ??= result.error ?? new Error(`Failed to decrypt secure properties in ${xmlFile}`);
+        return element;
+      }
+      return result.data;
+    });
+
+    if (error) {
+      return err(error);
+    }
+    if (newContent !== content) {
+      plan.changes.push({ file: xmlFile, content: newContent, created: false });
+    }
+  }
+
+  return ok(plan);
+}
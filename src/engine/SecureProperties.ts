@@ -0,0 +1,270 @@
+/**
+ * Secure Properties Engine
+ *
+ * Encrypts and decrypts values in the ![base64] form understood by the
+ * Mule Secure Properties module, compatible with the secure-properties-tool JAR.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Result, ok, err, SecureAlgorithm, SecureMode } from '../types/index.js';
+import {
+  parsePropertyFile,
+  isEncryptedValue,
+  PropertyFileFormat,
+  PropertyEntry,
+} from './PropertyFileParser.js';
+
+/**
+ * Cipher settings for encryption and decryption
+ */
+export interface SecureCipherOptions {
+  /** Encryption key (same value passed to the Mule runtime) */
+  key: string;
+  /** Algorithm (defaults to AES, like the Mule module) */
+  algorithm?: SecureAlgorithm;
+  /** Block cipher mode (defaults to CBC, like the Mule module) */
+  mode?: SecureMode;
+  /** Prepend a random IV to each value instead of deriving it from the key */
+  useRandomIVs?: boolean;
+}
+
+/**
+ * Supported algorithms and their block sizes in bytes
+ */
+const BLOCK_SIZES: Record<SecureAlgorithm, number> = {
+  AES: 16,
+  Blowfish: 8,
+};
+
+/**
+ * Wrap an encrypted base64 value in the ![...] form
+ */
+export function wrapEncrypted(value: string): string {
+  return `![${value}]`;
+}
+
+/**
+ * Remove the ![...] wrapper from an encrypted value
+ */
+export function unwrapEncrypted(value: string): string {
+  const trimmed = value.trim();
+  return isEncryptedValue(trimmed) ? trimmed.slice(2, -1) : trimmed;
+}
+
+/**
+ * Resolve the Node.js cipher name for the given settings
+ */
+function getCipherName(keyBytes: Buffer, algorithm: SecureAlgorithm, mode: SecureMode): string {
+  const suffix = mode.toLowerCase();
+
+  if (algorithm === 'Blowfish') {
+    if (keyBytes.length < 4 || keyBytes.length > 56) {
+      throw new Error('Blowfish keys must be between 4 and 56 bytes long');
+    }
+    return `bf-${suffix}`;
+  }
+
+  if (![16, 24, 32].includes(keyBytes.length)) {
+    throw new Error('AES keys must be 16, 24 or 32 bytes long');
+  }
+  return `aes-${keyBytes.length * 8}-${suffix}`;
+}
+
+/**
+ * Derive the IV from the key, as the Mule module does without random IVs
+ */
+function getKeyDerivedIv(keyBytes: Buffer, blockSize: number): Buffer {
+  const iv = Buffer.alloc(blockSize);
+  keyBytes.copy(iv, 0, 0, Math.min(blockSize, keyBytes.length));
+  return iv;
+}
+
+/**
+ * Apply PKCS5 padding (the Mule module pads in every mode)
+ */
+function pad(data: Buffer, blockSize: number): Buffer {
+  const padding = blockSize - (data.length % blockSize);
+  return Buffer.concat([data, Buffer.alloc(padding, padding)]);
+}
+
+/**
+ * Remove PKCS5 padding
+ * Every padding byte is checked, so a wrong key is caught instead of
+ * producing garbage that happens to end in a plausible byte.
+ */
+function unpad(data: Buffer, blockSize: number): Buffer {
+  const padding = data[data.length - 1];
+  if (
+    !padding ||
+    padding > blockSize ||
+    padding > data.length ||
+    data.subarray(data.length - padding).some((byte) => byte !== padding)
+  ) {
+    throw new Error('Invalid padding. Check the key, algorithm and mode.');
+  }
+  return data.subarray(0, data.length - padding);
+}
+
+/**
+ * Decode decrypted bytes, rejecting anything that is not valid UTF-8
+ * The remaining wrong keys that still yield valid padding produce random bytes.
+ */
+function decodeUtf8(data: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    throw new Error('Decrypted value is not valid UTF-8. Check the key, algorithm and mode.');
+  }
+}
+
+/**
+ * Turn low-level crypto errors into actionable messages
+ */
+function toCipherError(error: unknown, algorithm: SecureAlgorithm): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  if (algorithm === 'Blowfish' && message.includes('unsupported')) {
+    return new Error(
+      'Blowfish is not available in this Node.js build. Run with NODE_OPTIONS=--openssl-legacy-provider'
+    );
+  }
+  return error instanceof Error ? error : new Error(message);
+}
+
+/**
+ * Encrypt a plaintext value, returning base64 without the ![...] wrapper
+ */
+export function encryptValue(value: string, options: SecureCipherOptions): Result<string> {
+  const algorithm = options.algorithm ?? 'AES';
+  const mode = options.mode ?? 'CBC';
+  const blockSize = BLOCK_SIZES[algorithm];
+
+  try {
+    const keyBytes = Buffer.from(options.key, 'utf-8');
+    const cipherName = getCipherName(keyBytes, algorithm, mode);
+    const iv =
+      mode === 'ECB'
+        ? null
+        : options.useRandomIVs
+          ? randomBytes(blockSize)
+          : getKeyDerivedIv(keyBytes, blockSize);
+
+    const cipher = createCipheriv(cipherName, keyBytes, iv);
+    cipher.setAutoPadding(false);
+
+    const encrypted = Buffer.concat([
+      cipher.update(pad(Buffer.from(value, 'utf-8'), blockSize)),
+      cipher.final(),
+    ]);
+
+    // Random IVs travel with the value so it can be decrypted later
+    const output = options.useRandomIVs && iv ? Buffer.concat([iv, encrypted]) : encrypted;
+    return ok(output.toString('base64'));
+  } catch (error) {
+    return err(toCipherError(error, algorithm));
+  }
+}
+
+/**
+ * Decrypt a base64 value (with or without the ![...] wrapper)
+ */
+export function decryptValue(value: string, options: SecureCipherOptions): Result<string> {
+  const algorithm = options.algorithm ?? 'AES';
+  const mode = options.mode ?? 'CBC';
+  const blockSize = BLOCK_SIZES[algorithm];
+
+  try {
+    const keyBytes = Buffer.from(options.key, 'utf-8');
+    const cipherName = getCipherName(keyBytes, algorithm, mode);
+    let data = Buffer.from(unwrapEncrypted(value), 'base64');
+
+    let iv: Buffer | null = null;
+    if (mode !== 'ECB') {
+      if (options.useRandomIVs) {
+        iv = data.subarray(0, blockSize);
+        data = data.subarray(blockSize);
+      } else {
+        iv = getKeyDerivedIv(keyBytes, blockSize);
+      }
+    }
+
+    if (data.length === 0 || data.length % blockSize !== 0) {
+      return err(new Error('Encrypted value has an invalid length'));
+    }
+
+    const decipher = createDecipheriv(cipherName, keyBytes, iv);
+    decipher.setAutoPadding(false);
+
+    const decrypted = Buffer.concat([decipher.update(data), decipher.final()]);
+    return ok(decodeUtf8(unpad(decrypted, blockSize)));
+  } catch (error) {
+    return err(toCipherError(error, algorithm));
+  }
+}
+
+/**
+ * Replace entry values in property file content, last entry first so offsets stay valid
+ */
+function replaceEntries(
+  content: string,
+  entries: PropertyEntry[],
+  transform: (entry: PropertyEntry) => Result<string>
+): Result<{ result: string; count: number }> {
+  let result = content;
+
+  for (const entry of [...entries].sort((a, b) => b.start - a.start)) {
+    const replacement = transform(entry);
+    if (!replacement.success || replacement.data === undefined) {
+      return err(
+        new Error(`${entry.key} (line ${entry.line}): ${replacement.error?.message ?? 'failed'}`)
+      );
+    }
+    result = result.slice(0, entry.start) + replacement.data + result.slice(entry.end);
+  }
+
+  return ok({ result, count: entries.length });
+}
+
+/**
+ * Encrypt every plaintext value in property file content
+ * Values that are empty or already encrypted are left untouched.
+ */
+export function encryptFileContent(
+  content: string,
+  format: PropertyFileFormat,
+  options: SecureCipherOptions
+): Result<{ result: string; count: number }> {
+  const entries = parsePropertyFile(content, format).filter(
+    (e) => e.value.trim() !== '' && !isEncryptedValue(e.value)
+  );
+
+  return replaceEntries(content, entries, (entry) => {
+    const encrypted = encryptValue(entry.value, options);
+    if (!encrypted.success || !encrypted.data) return encrypted;
+
+    // YAML needs quotes, otherwise '!' starts a tag
+    const wrapped = wrapEncrypted(encrypted.data);
+    return ok(format === 'yaml' ? `"${wrapped}"` : wrapped);
+  });
+}
+
+/**
+ * Decrypt every ![...] value in property file content
+ */
+export function decryptFileContent(
+  content: string,
+  format: PropertyFileFormat,
+  options: SecureCipherOptions
+): Result<{ result: string; count: number }> {
+  const entries = parsePropertyFile(content, format).filter((e) => isEncryptedValue(e.value));
+
+  return replaceEntries(content, entries, (entry) => {
+    const decrypted = decryptValue(entry.value, options);
+    if (!decrypted.success || decrypted.data === undefined) return decrypted;
+
+    return ok(
+      format === 'yaml'
+        ? JSON.stringify(decrypted.data)
+        : decrypted.data.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+    );
+  });
+}
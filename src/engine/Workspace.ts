@@ -0,0 +1,95 @@
+/**
+ * Workspace Engine
+ *
+ * Creates isolated copies of a Mule project so builds can transform files
+ * and run Maven without touching the developer's working tree.
+ */
+
+import { cpSync, existsSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { tmpdir } from 'os';
+import { Result, ok, err } from '../types/index.js';
+import { loadPom } from './PomParser.js';
+
+/**
+ * Top-level entries never copied into a workspace
+ * Build output, VCS metadata and tooling state are not needed to build.
+ */
+const WORKSPACE_EXCLUDES = ['target', '.git', 'node_modules', '.mule-build'];
+
+/**
+ * Find build inputs outside the project that a workspace copy would lose
+ * Maven reads the parent pom from <relativePath> (../pom.xml by default) and
+ * .mvn from the nearest ancestor that has one, so multi-module layouts only
+ * build where they are. Returns paths relative to cwd.
+ */
+export function findExternalBuildInputs(cwd: string): string[] {
+  const root = resolve(cwd);
+  const inputs: string[] = [];
+
+  const model = loadPom(root).data;
+  if (model?.parent) {
+    // An empty <relativePath/> means the parent comes from a repository
+    const relativePath = model.positions.has('project/parent/relativePath')
+      ? model.parent.relativePath
+      : '../pom.xml';
+    if (relativePath) {
+      let parentPom = resolve(root, relativePath);
+      if (existsSync(parentPom) && statSync(parentPom).isDirectory()) {
+        parentPom = join(parentPom, 'pom.xml');
+      }
+      if (existsSync(parentPom) && relative(root, parentPom).startsWith('..')) {
+        inputs.push(relative(root, parentPom));
+      }
+    }
+  }
+
+  if (!existsSync(join(root, '.mvn'))) {
+    for (let dir = dirname(root); ; dir = dirname(dir)) {
+      if (existsSync(join(dir, '.mvn'))) {
+        inputs.push(relative(root, join(dir, '.mvn')));
+        break;
+      }
+      if (dirname(dir) === dir) break;
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * Copy a project into a new temporary build workspace
+ * Each call gets its own directory, so concurrent builds do not interfere.
+ */
+export function createWorkspace(cwd: string): Result<string> {
+  try {
+    const workspaceDir = mkdtempSync(join(tmpdir(), 'mule-build-workspace-'));
+
+    cpSync(cwd, workspaceDir, {
+      recursive: true,
+      filter: (source) => {
+        const topLevel = relative(cwd, source).split(sep)[0];
+        return !WORKSPACE_EXCLUDES.includes(topLevel);
+      },
+    });
+
+    return ok(workspaceDir);
+  } catch (error) {
+    return err(
+      new Error(
+        `Failed to create build workspace: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+}
+
+/**
+ * Remove a build workspace
+ */
+export function removeWorkspace(workspaceDir: string): void {
+  try {
+    rmSync(workspaceDir, { recursive: true, force: true });
+  } catch {
+    // Ignore cleanup errors
+  }
+}
@@ -6,17 +6,29 @@
  */
 
 import { readFileSync, writeFileSync, readdirSync, statSync, existsSync } from 'fs';
-import { join, relative } from 'path';
+import { join, relative, extname } from 'path';
+import { createHash } from 'crypto';
 import {
   Result,
   ok,
   err,
   StripResult,
   EnforceResult,
+  EnforceFixResult,
   SecurityViolation,
   FileChange,
+  SecretDetectionConfig,
 } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { getFileChanges } from '../utils/diff.js';
+import {
+  getPropertyFileFormat,
+  parsePropertyFile,
+  isEncryptedValue,
+  NON_PROPERTY_DIRS,
+  PropertyFileFormat,
+} from './PropertyFileParser.js';
+import { detectSecrets, maskSecret, SECRET_TYPE_LABELS, SecretType } from './SecretDetector.js';
 
 /**
  * Regex patterns for secure property detection and modification
@@ -24,18 +36,19 @@ import { logger } from '../utils/logger.js';
 const PATTERNS = {
   // Matches ${secure::property.name} format
   securePropertyBraces: /\$\{secure::([^}]+)\}/g,
-  // Matches Mule::p('secure::property.name') DataWeave format
-  securePropertyDataWeave: /Mule::p\('secure::([^']+)'\)/g,
+  // Matches Mule::p('secure::property.name') and bare p('secure::property.name') DataWeave format
+  // (quotes inside XML attributes are written as &quot; or &apos;)
+  securePropertyDataWeave: /\b(Mule::)?p\((['"]|&quot;|&apos;)secure::([^'"&]+)\2\)/g,
   // Matches any ${...} property reference
   anyProperty: /\$\{([^}]+)\}/g,
-  // Matches Mule::p('...') DataWeave property reference
-  anyDataWeaveProperty: /Mule::p\('([^']+)'\)/g,
+  // Matches Mule::p('...') and bare p('...') DataWeave property reference
+  anyDataWeaveProperty: /\b(Mule::)?p\((['"]|&quot;|&apos;)([^'"&]+)\2\)/g,
 };
 
 /**
  * Default sensitive property patterns that should be secured
  */
-const DEFAULT_SENSITIVE_PATTERNS = [
+export const DEFAULT_SENSITIVE_PATTERNS = [
   'password',
   'secret',
   'key',
@@ -50,6 +63,50 @@ const DEFAULT_SENSITIVE_PATTERNS = [
   'tokenSecret',
 ];
 
+/**
+ * Default XML attribute names that must never hold literal values
+ * Matched case-insensitively against the end of the attribute's local name,
+ * so 'password' also covers keyPassword and storePassword.
+ */
+const DEFAULT_SENSITIVE_ATTRIBUTES = [
+  'password',
+  'secret',
+  'token',
+  'tokenId',
+  'passphrase',
+  'apiKey',
+  'api-key',
+  'consumerKey',
+  'privateKey',
+  'credentials',
+];
+
+/**
+ * Matches an XML start tag, respecting quoted attribute values
+ */
+const START_TAG = /<[A-Za-z_][\w:.-]*(?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*\s*\/?>/g;
+
+/**
+ * Matches a single attribute inside a start tag
+ */
+const ATTRIBUTE = /\s([^\s=>/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Inline comment that suppresses enforce findings on the following line
+ * Works in any comment syntax: <!-- -->, # and //
+ */
+const IGNORE_DIRECTIVE = 'mule-build-ignore-next-line';
+
+/**
+ * File extensions checked by enforce
+ */
+const ENFORCE_EXTENSIONS = ['.xml', '.dwl', '.properties', '.yaml', '.yml'];
+
+/**
+ * File extensions that can reference properties (Mule XML and DataWeave modules)
+ */
+const MULE_SOURCE_EXTENSIONS = ['.xml', '.dwl'];
+
 /**
  * Strip secure:: prefixes from XML content
  * Preserves file formatting and comments
@@ -63,74 +120,454 @@ export function stripSecureFromContent(content: string): { result: string; count
     return `\${${prop}}`;
   });
 
-  // Replace Mule::p('secure::prop') -> Mule::p('prop')
-  result = result.replace(PATTERNS.securePropertyDataWeave, (_match, prop) => {
+  // Replace Mule::p('secure::prop') -> Mule::p('prop'), p('secure::prop') -> p('prop')
+  result = result.replace(PATTERNS.securePropertyDataWeave, (_match, ns, quote, prop) => {
     count++;
-    return `Mule::p('${prop}')`;
+    return `${ns ?? ''}p(${quote}${prop}${quote})`;
   });
 
   return { result, count };
 }
 
 /**
- * Check content for unsecured sensitive properties
+ * Add secure:: prefixes to unsecured sensitive property references
+ * The inverse of stripSecureFromContent, with the same formatting guarantees.
+ * Suppressed lines and allowlisted properties are left untouched.
  */
-export function findUnsecuredProperties(
+export function fixUnsecuredInContent(
   content: string,
-  sensitivePatterns: string[] = DEFAULT_SENSITIVE_PATTERNS
-): { property: string; line: number; value: string }[] {
-  const violations: { property: string; line: number; value: string }[] = [];
+  sensitivePatterns: string[] = DEFAULT_SENSITIVE_PATTERNS,
+  allowlist: string[] = []
+): { result: string; count: number } {
+  let count = 0;
+  const sensitiveRegex = new RegExp(sensitivePatterns.join('|'), 'i');
+  const suppressedLines = getSuppressedLines(content);
+  const needsFix = (prop: string) =>
+    !prop.startsWith('secure::') && sensitiveRegex.test(prop) && !isAllowlisted(prop, allowlist);
+
+  const lines = content.split('\n').map((line, index) => {
+    if (suppressedLines.has(index + 1)) return line;
+
+    // Replace ${prop} -> ${secure::prop}
+    const result = line.replace(PATTERNS.anyProperty, (match, prop) => {
+      if (!needsFix(prop)) return match;
+      count++;
+      return `\${secure::${prop}}`;
+    });
+
+    // Replace Mule::p('prop') -> Mule::p('secure::prop'), p('prop') -> p('secure::prop')
+    return result.replace(PATTERNS.anyDataWeaveProperty, (match, ns, quote, prop) => {
+      if (!needsFix(prop)) return match;
+      count++;
+      return `${ns ?? ''}p(${quote}secure::${prop}${quote})`;
+    });
+  });
+
+  return { result: lines.join('\n'), count };
+}
+
+/**
+ * Get the line numbers suppressed by mule-build-ignore-next-line comments
+ */
+export function getSuppressedLines(content: string): Set<number> {
+  const suppressed = new Set<number>();
+
+  content.split('\n').forEach((line, index) => {
+    if (line.includes(IGNORE_DIRECTIVE)) {
+      suppressed.add(index + 2);
+    }
+  });
+
+  return suppressed;
+}
+
+/**
+ * Check if a property name matches an allowlist entry
+ * Entries are exact property names, or regular expressions written as /pattern/
+ */
+export function isAllowlisted(property: string, allowlist: string[]): boolean {
+  return allowlist.some((entry) =>
+    isRegexEntry(entry) ? new RegExp(entry.slice(1, -1)).test(property) : entry === property
+  );
+}
+
+/**
+ * Check if a pattern list entry is written as /regex/
+ */
+export function isRegexEntry(entry: string): boolean {
+  return entry.length > 2 && entry.startsWith('/') && entry.endsWith('/');
+}
+
+/**
+ * Find every property reference in content
+ * Covers ${prop}, Mule::p('prop') and p('prop'); secure:: is reported separately from the key.
+ */
+export function findPropertyReferences(
+  content: string
+): { property: string; secure: boolean; line: number; column: number; value: string }[] {
+  const references: {
+    property: string;
+    secure: boolean;
+    line: number;
+    column: number;
+    value: string;
+  }[] = [];
   const lines = content.split('\n');
 
-  const sensitiveRegex = new RegExp(sensitivePatterns.join('|'), 'i');
+  const addReference = (propName: string, lineNumber: number, match: RegExpMatchArray) => {
+    const secure = propName.startsWith('secure::');
+    references.push({
+      property: secure ? propName.slice('secure::'.length) : propName,
+      secure,
+      line: lineNumber,
+      column: (match.index ?? 0) + 1,
+      value: match[0],
+    });
+  };
 
   lines.forEach((line, index) => {
-    // Check ${prop} format (not already secured)
-    const braceMatches = line.matchAll(PATTERNS.anyProperty);
-    for (const match of braceMatches) {
-      const fullMatch = match[0];
-      const propName = match[1];
-
-      // Skip if already secured
-      if (propName.startsWith('secure::')) continue;
-
-      // Check if property name contains sensitive pattern
-      if (sensitiveRegex.test(propName)) {
-        violations.push({
-          property: propName,
-          line: index + 1,
-          value: fullMatch,
-        });
-      }
+    // ${prop} format
+    for (const match of line.matchAll(PATTERNS.anyProperty)) {
+      addReference(match[1], index + 1, match);
     }
 
-    // Check Mule::p('prop') format (not already secured)
-    const dwMatches = line.matchAll(PATTERNS.anyDataWeaveProperty);
-    for (const match of dwMatches) {
-      const fullMatch = match[0];
-      const propName = match[1];
-
-      // Skip if already secured
-      if (propName.startsWith('secure::')) continue;
-
-      // Check if property name contains sensitive pattern
-      if (sensitiveRegex.test(propName)) {
-        violations.push({
-          property: propName,
-          line: index + 1,
-          value: fullMatch,
-        });
-      }
+    // Mule::p('prop') / p('prop') format
+    for (const match of line.matchAll(PATTERNS.anyDataWeaveProperty)) {
+      addReference(match[3], index + 1, match);
     }
   });
 
+  return references;
+}
+
+/**
+ * Check content for unsecured sensitive properties
+ * Findings on suppressed lines or for allowlisted properties are flagged as suppressed.
+ */
+export function findUnsecuredProperties(
+  content: string,
+  sensitivePatterns: string[] = DEFAULT_SENSITIVE_PATTERNS,
+  allowlist: string[] = []
+): { property: string; line: number; column: number; value: string; suppressed: boolean }[] {
+  const sensitiveRegex = new RegExp(sensitivePatterns.join('|'), 'i');
+  const suppressedLines = getSuppressedLines(content);
+
+  // Sensitive references that are not already secured
+  return findPropertyReferences(content)
+    .filter((ref) => !ref.secure && sensitiveRegex.test(ref.property))
+    .map((ref) => ({
+      property: ref.property,
+      line: ref.line,
+      column: ref.column,
+      value: ref.value,
+      suppressed: suppressedLines.has(ref.line) || isAllowlisted(ref.property, allowlist),
+    }));
+}
+
+/**
+ * Hash a secret value, so findings can be told apart without keeping the secret
+ */
+function hashValue(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Get the 1-based line and column of an offset in content
+ */
+function getPosition(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  return {
+    line: before.split('\n').length,
+    column: offset - before.lastIndexOf('\n'),
+  };
+}
+
+/**
+ * Blank out XML comments, keeping newlines so offsets and line numbers stay valid
+ */
+function blankComments(content: string): string {
+  return content.replace(/<!--[\s\S]*?-->/g, (comment) => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find start tags of elements with the given qualified name (e.g. configuration-properties)
+ * Commented-out elements are ignored.
+ */
+export function findElements(
+  content: string,
+  tagName: string
+): { attributes: Record<string, string>; line: number; start: number; end: number }[] {
+  const elements: {
+    attributes: Record<string, string>;
+    line: number;
+    start: number;
+    end: number;
+  }[] = [];
+  const source = blankComments(content);
+
+  for (const tag of source.matchAll(START_TAG)) {
+    const name = tag[0].slice(1).match(/^[^\s/>]+/)?.[0];
+    if (name !== tagName) continue;
+
+    const attributes: Record<string, string> = {};
+    for (const attr of tag[0].matchAll(ATTRIBUTE)) {
+      attributes[attr[1]] = attr[2] ?? attr[3] ?? '';
+    }
+
+    const start = tag.index ?? 0;
+    elements.push({
+      attributes,
+      line: source.slice(0, start).split('\n').length,
+      start,
+      end: start + tag[0].length,
+    });
+  }
+
+  return elements;
+}
+
+/**
+ * Check XML content for sensitive attributes holding literal values
+ * e.g. password="P@ssw0rd" instead of password="${secure::db.password}"
+ */
+export function findHardcodedCredentials(
+  content: string,
+  sensitiveAttributes: string[] = DEFAULT_SENSITIVE_ATTRIBUTES
+): {
+  attribute: string;
+  line: number;
+  column: number;
+  endColumn?: number;
+  value: string;
+  valueHash: string;
+}[] {
+  const violations: {
+    attribute: string;
+    line: number;
+    column: number;
+    endColumn?: number;
+    value: string;
+    valueHash: string;
+  }[] = [];
+  const suffixes = sensitiveAttributes.map((a) => a.toLowerCase());
+
+  // Blank out comments (keeping newlines) so line numbers stay correct
+  const source = blankComments(content);
+
+  for (const tag of source.matchAll(START_TAG)) {
+    for (const attr of tag[0].matchAll(ATTRIBUTE)) {
+      const name = attr[1];
+      const value = attr[2] ?? attr[3] ?? '';
+      const localName = name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+
+      if (name.startsWith('xmlns')) continue;
+      if (!suffixes.some((s) => localName.toLowerCase().endsWith(s))) continue;
+
+      // References and expressions are fine, only literals are credentials
+      const trimmed = value.trim();
+      if (trimmed === '' || trimmed.includes('${') || trimmed.startsWith('#[')) continue;
+
+      // The attribute match starts with the whitespace before the name
+      const text = attr[0].slice(1);
+      const offset = (tag.index ?? 0) + (attr.index ?? 0) + 1;
+      const { line, column } = getPosition(source, offset);
+      violations.push({
+        attribute: name,
+        line,
+        column,
+        endColumn: text.includes('\n') ? undefined : column + text.length,
+        value: `${name}="${'*'.repeat(8)}"`,
+        valueHash: hashValue(value),
+      });
+    }
+  }
+
   return violations;
 }
 
+/**
+ * Check property file content for sensitive keys with plaintext values
+ * Values must be in the Secure Properties encrypted form: ![...]
+ */
+export function findPlaintextSecrets(
+  content: string,
+  format: PropertyFileFormat,
+  sensitivePatterns: string[] = DEFAULT_SENSITIVE_PATTERNS
+): {
+  property: string;
+  line: number;
+  column: number;
+  endColumn?: number;
+  value: string;
+  valueHash: string;
+}[] {
+  const violations: {
+    property: string;
+    line: number;
+    column: number;
+    endColumn?: number;
+    value: string;
+    valueHash: string;
+  }[] = [];
+  const sensitiveRegex = new RegExp(sensitivePatterns.join('|'), 'i');
+
+  for (const entry of parsePropertyFile(content, format)) {
+    const value = entry.value.trim();
+
+    // Empty values and pure placeholders carry no secret
+    if (value === '' || /^\$\{[^}]+\}$/.test(value)) continue;
+
+    if (isEncryptedValue(value)) continue;
+
+    if (sensitiveRegex.test(entry.key)) {
+      const { column } = getPosition(content, entry.start);
+      const raw = content.slice(entry.start, entry.end);
+      violations.push({
+        property: entry.key,
+        line: entry.line,
+        column,
+        endColumn: raw.includes('\n') ? undefined : column + raw.length,
+        value: `${entry.key}=${'*'.repeat(8)}`,
+        valueHash: hashValue(value),
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * XML attributes that name or document things rather than hold values
+ * Matched on the full name; doc:* covers doc:name, doc:id and doc:description.
+ */
+const NON_VALUE_ATTRIBUTES = [/^name$/, /^doc:/, /^path$/, /^xmlns(:|$)/, /^xsi:/];
+
+/**
+ * Matches a DataWeave string literal on one line
+ */
+const DATAWEAVE_STRING = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g;
+
+/**
+ * Parts of a file that can hold secret values
+ * Property values (with their key), XML attribute values other than names and
+ * documentation, and DataWeave string literals. Identifiers, flow names and
+ * paths elsewhere are never scanned.
+ */
+function getSecretScanRegions(
+  content: string,
+  file: string
+): { property?: string; start: number; end: number }[] {
+  const format = getPropertyFileFormat(file);
+  if (format) {
+    return parsePropertyFile(content, format)
+      .filter((entry) => !isEncryptedValue(entry.value.trim()))
+      .map((entry) => ({ property: entry.key, start: entry.start, end: entry.end }));
+  }
+
+  if (extname(file).toLowerCase() === '.xml') {
+    const source = blankComments(content);
+    return [...source.matchAll(START_TAG)].flatMap((tag) =>
+      [...tag[0].matchAll(ATTRIBUTE)]
+        .filter((attr) => !NON_VALUE_ATTRIBUTES.some((pattern) => pattern.test(attr[1])))
+        .map((attr) => {
+          const value = attr[2] ?? attr[3] ?? '';
+          // The attribute match ends with the closing quote
+          const end = (tag.index ?? 0) + (attr.index ?? 0) + attr[0].length - 1;
+          return { start: end - value.length, end };
+        })
+    );
+  }
+
+  return [...content.matchAll(DATAWEAVE_STRING)].map((literal) => ({
+    start: (literal.index ?? 0) + 1,
+    end: (literal.index ?? 0) + literal[0].length - 1,
+  }));
+}
+
+/**
+ * Find values that look like secrets regardless of their key names
+ * Property files are checked value by value, so findings carry their key;
+ * XML files are checked attribute by attribute, DataWeave string by string.
+ * `file` selects the format by its extension.
+ */
+export function findSecretLikeValues(
+  content: string,
+  file: string,
+  config: SecretDetectionConfig = {}
+): {
+  property?: string;
+  line: number;
+  column: number;
+  endColumn?: number;
+  value: string;
+  valueHash: string;
+  type: SecretType;
+}[] {
+  return getSecretScanRegions(content, file).flatMap((region) =>
+    detectSecrets(content.slice(region.start, region.end), config).map((secret) => {
+      const { line, column } = getPosition(content, region.start + secret.start);
+      const masked = maskSecret(secret);
+      return {
+        property: region.property,
+        line,
+        column,
+        endColumn: secret.text.includes('\n') ? undefined : column + secret.text.length,
+        value: region.property ? `${region.property}=${masked}` : masked,
+        valueHash: hashValue(secret.text),
+        type: secret.type,
+      };
+    })
+  );
+}
+
 /**
  * Get all XML files in a directory recursively
  */
 export function getXmlFiles(directory: string): string[] {
+  return getSourceFiles(directory, ['.xml']);
+}
+
+/**
+ * Get all Mule XML and DataWeave (.dwl) files in a directory recursively
+ */
+export function getMuleSourceFiles(directory: string): string[] {
+  return getSourceFiles(directory, MULE_SOURCE_EXTENSIONS);
+}
+
+/**
+ * Get all files checked by enforce (XML, DataWeave and property files) recursively
+ */
+export function getEnforceableFiles(directory: string): string[] {
+  return getSourceFiles(directory, ENFORCE_EXTENSIONS);
+}
+
+/**
+ * Targets enforce checks by default: the Mule directory plus the contents of
+ * src/main/resources, leaving out the API specs there
+ */
+export function getDefaultEnforceTargets(muleDir: string, resourcesDir: string): string[] {
+  if (!existsSync(resourcesDir)) {
+    return [muleDir];
+  }
+
+  const resources = readdirSync(resourcesDir)
+    .filter((entry) => !NON_PROPERTY_DIRS.includes(entry))
+    .map((entry) => join(resourcesDir, entry))
+    .filter((path) => statSync(path).isDirectory() || isEnforceableFile(path));
+  return [muleDir, ...resources];
+}
+
+/**
+ * Check whether enforce checks a file, by extension
+ */
+export function isEnforceableFile(file: string): boolean {
+  return ENFORCE_EXTENSIONS.includes(extname(file).toLowerCase());
+}
+
+/**
+ * Get all files with the given extensions in a directory recursively
+ */
+function getSourceFiles(directory: string, extensions: string[]): string[] {
   const files: string[] = [];
 
   if (!existsSync(directory)) {
@@ -145,7 +582,7 @@ export function getXmlFiles(directory: string): string[] {
 
       if (stat.isDirectory()) {
         walk(fullPath);
-      } else if (entry.endsWith('.xml')) {
+      } else if (extensions.includes(extname(entry).toLowerCase())) {
         files.push(fullPath);
       }
     }
@@ -155,19 +592,26 @@ export function getXmlFiles(directory: string): string[] {
   return files;
 }
 
+/**
+ * Resolve one or more targets (files or directories) into a file list
+ */
+function collectFiles(target: string | string[], walk: (dir: string) => string[]): string[] {
+  const targets = Array.isArray(target) ? target : [target];
+  return targets.flatMap((t) => (statSync(t).isDirectory() ? walk(t) : [t]));
+}
+
 /**
  * Strip secure:: prefixes from files
  */
 export async function stripSecure(
-  target: string,
+  target: string | string[],
   options: { dryRun?: boolean; cwd?: string } = {}
 ): Promise<Result<StripResult>> {
   const cwd = options.cwd ?? process.cwd();
   const dryRun = options.dryRun ?? false;
 
   try {
-    const stat = statSync(target);
-    const files = stat.isDirectory() ? getXmlFiles(target) : [target];
+    const files = collectFiles(target, getMuleSourceFiles);
 
     const changes: FileChange[] = [];
     const filesProcessed: string[] = [];
@@ -182,11 +626,7 @@ export async function stripSecure(
         totalReplacements += count;
 
         if (dryRun) {
-          changes.push({
-            file: relative(cwd, file),
-            before: content.substring(0, 200) + '...',
-            after: result.substring(0, 200) + '...',
-          });
+          changes.push(...getFileChanges(relative(cwd, file), content, result));
         } else {
           writeFileSync(file, result);
           logger.success(`Stripped ${count} secure:: prefix(es) from ${relative(cwd, file)}`);
@@ -204,45 +644,171 @@ export async function stripSecure(
   }
 }
 
+/**
+ * Where a finding sits on its line; findings spanning lines run to its end
+ */
+interface FindingRange {
+  line: number;
+  column: number;
+  endColumn?: number;
+}
+
+/**
+ * Check whether a finding overlaps any of the others
+ */
+function overlapsAny(range: FindingRange, others: FindingRange[]): boolean {
+  const end = range.endColumn ?? Infinity;
+  return others.some(
+    (o) => o.line === range.line && range.column < (o.endColumn ?? Infinity) && o.column < end
+  );
+}
+
+/**
+ * Detector settings shared by enforce and the history scan
+ */
+export interface EnforceCheckOptions {
+  sensitivePatterns?: string[];
+  allowlist?: string[];
+  secretDetection?: SecretDetectionConfig;
+}
+
+/**
+ * Run every enforce detector on the content of one file
+ * `file` is the path reported in violations; its extension selects the detectors.
+ * Findings skipped by ignore comments or the allowlist are returned separately.
+ * valueHashes holds the SHA-256 of the raw value behind each secret finding
+ * (references carry no secret and have none).
+ */
+export function checkFileContent(
+  content: string,
+  file: string,
+  options: EnforceCheckOptions = {}
+): {
+  violations: SecurityViolation[];
+  suppressed: SecurityViolation[];
+  valueHashes: Map<SecurityViolation, string>;
+} {
+  const sensitivePatterns = options.sensitivePatterns ?? DEFAULT_SENSITIVE_PATTERNS;
+  const allowlist = options.allowlist ?? [];
+  const violations: SecurityViolation[] = [];
+  const suppressed: SecurityViolation[] = [];
+  const valueHashes = new Map<SecurityViolation, string>();
+  const suppressedLines = getSuppressedLines(content);
+
+  const format = getPropertyFileFormat(file);
+  const plaintext = format ? findPlaintextSecrets(content, format, sensitivePatterns) : [];
+  for (const v of plaintext) {
+    const violation: SecurityViolation = {
+      kind: 'plaintext-secret',
+      file,
+      line: v.line,
+      column: v.column,
+      property: v.property,
+      value: v.value,
+      suggestion:
+        format === 'yaml'
+          ? `${v.property}: "![<encrypted value>]"`
+          : `${v.property}=![<encrypted value>]`,
+    };
+    valueHashes.set(violation, v.valueHash);
+    const skip = suppressedLines.has(v.line) || isAllowlisted(v.property, allowlist);
+    (skip ? suppressed : violations).push(violation);
+  }
+
+  // Attribute literals only exist in XML, DataWeave modules just reference properties
+  const hardcoded = extname(file).toLowerCase() === '.xml' ? findHardcodedCredentials(content) : [];
+  for (const v of hardcoded) {
+    const violation: SecurityViolation = {
+      kind: 'hardcoded-credential',
+      file,
+      line: v.line,
+      column: v.column,
+      endColumn: v.endColumn,
+      property: v.attribute,
+      value: v.value,
+      suggestion: `${v.attribute}="\${secure::<property.name>}"`,
+    };
+    valueHashes.set(violation, v.valueHash);
+    (suppressedLines.has(v.line) ? suppressed : violations).push(violation);
+  }
+
+  // Property files hold values, not references
+  const references = format ? [] : findUnsecuredProperties(content, sensitivePatterns, allowlist);
+  for (const v of references) {
+    const violation: SecurityViolation = {
+      kind: 'unsecured-reference',
+      file,
+      line: v.line,
+      column: v.column,
+      endColumn: v.column + v.value.length,
+      property: v.property,
+      value: v.value,
+      suggestion: v.value.replace(v.property, `secure::${v.property}`),
+    };
+    (v.suppressed ? suppressed : violations).push(violation);
+  }
+
+  // Secrets under innocent names; values already found above are not repeated
+  const found: FindingRange[] = [
+    ...plaintext,
+    ...hardcoded,
+    ...references.map((v) => ({ ...v, endColumn: v.column + v.value.length })),
+  ];
+  for (const v of findSecretLikeValues(content, file, options.secretDetection)) {
+    if (overlapsAny(v, found)) continue;
+    found.push(v);
+
+    const violation: SecurityViolation = {
+      kind: 'high-entropy-secret',
+      file,
+      line: v.line,
+      column: v.column,
+      property: v.property,
+      value: v.value,
+      suggestion: `Looks like a ${SECRET_TYPE_LABELS[v.type]}: encrypt it in the secure properties file and reference it as \${secure::<property.name>}`,
+    };
+    valueHashes.set(violation, v.valueHash);
+    const skip =
+      suppressedLines.has(v.line) ||
+      (v.property !== undefined && isAllowlisted(v.property, allowlist));
+    (skip ? suppressed : violations).push(violation);
+  }
+
+  return { violations, suppressed, valueHashes };
+}
+
 /**
  * Enforce secure:: prefixes for sensitive properties
+ * XML files are checked for unsecured references and literal credentials,
+ * property files for plaintext values.
  */
 export async function enforceSecure(
-  target: string,
-  options: { sensitivePatterns?: string[]; cwd?: string } = {}
+  target: string | string[],
+  options: EnforceCheckOptions & { cwd?: string } = {}
 ): Promise<Result<EnforceResult>> {
   const cwd = options.cwd ?? process.cwd();
-  const sensitivePatterns = options.sensitivePatterns ?? DEFAULT_SENSITIVE_PATTERNS;
 
   try {
-    const stat = statSync(target);
-    const files = stat.isDirectory() ? getXmlFiles(target) : [target];
+    const files = collectFiles(target, getEnforceableFiles);
 
     const violations: SecurityViolation[] = [];
     const filesChecked: string[] = [];
+    let suppressed = 0;
 
     for (const file of files) {
       const content = readFileSync(file, 'utf-8');
       filesChecked.push(relative(cwd, file));
 
-      const fileViolations = findUnsecuredProperties(content, sensitivePatterns);
-
-      for (const v of fileViolations) {
-        violations.push({
-          file: relative(cwd, file),
-          line: v.line,
-          value: v.value,
-          suggestion: v.value.includes("Mule::p('")
-            ? `Mule::p('secure::${v.property}')`
-            : `\${secure::${v.property}}`,
-        });
-      }
+      const result = checkFileContent(content, relative(cwd, file), options);
+      violations.push(...result.violations);
+      suppressed += result.suppressed.length;
     }
 
     return ok({
       valid: violations.length === 0,
       filesChecked,
       violations,
+      suppressed,
     });
   } catch (error) {
     return err(error instanceof Error ? error : new Error(String(error)));
@@ -250,13 +816,114 @@ export async function enforceSecure(
 }
 
 /**
- * Remove secure-properties:config element from XML content
- * Uses regex to preserve formatting
+ * Add missing secure:: prefixes to sensitive property references in files
+ * Only XML and DataWeave files are rewritten; plaintext values and literals need manual fixes.
+ */
+export async function fixSecure(
+  target: string | string[],
+  options: {
+    sensitivePatterns?: string[];
+    allowlist?: string[];
+    dryRun?: boolean;
+    cwd?: string;
+  } = {}
+): Promise<Result<EnforceFixResult>> {
+  const cwd = options.cwd ?? process.cwd();
+  const dryRun = options.dryRun ?? false;
+  const sensitivePatterns = options.sensitivePatterns ?? DEFAULT_SENSITIVE_PATTERNS;
+  const allowlist = options.allowlist ?? [];
+
+  try {
+    const files = collectFiles(target, getMuleSourceFiles).filter((f) => !getPropertyFileFormat(f));
+
+    const changes: FileChange[] = [];
+    const filesFixed: string[] = [];
+    let totalReplacements = 0;
+
+    for (const file of files) {
+      const content = readFileSync(file, 'utf-8');
+      const { result, count } = fixUnsecuredInContent(content, sensitivePatterns, allowlist);
+
+      if (count > 0) {
+        filesFixed.push(relative(cwd, file));
+        totalReplacements += count;
+        changes.push(...getFileChanges(relative(cwd, file), content, result));
+
+        if (!dryRun) {
+          writeFileSync(file, result);
+          logger.success(`Added ${count} secure:: prefix(es) to ${relative(cwd, file)}`);
+        }
+      }
+    }
+
+    return ok({
+      filesFixed,
+      replacementCount: totalReplacements,
+      changes,
+    });
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Matches a self-closing or paired <secure-properties:config> element
+ */
+const SECURE_PROPERTIES_CONFIG =
+  '<secure-properties:config\\b(?:[^>]*?\\/>|[^>]*>[\\s\\S]*?<\\/secure-properties:config>)';
+
+/**
+ * Matches the secure-properties namespace declaration, capturing its URI
+ */
+const SECURE_PROPERTIES_NAMESPACE = /\s+xmlns:secure-properties\s*=\s*(["'])([^"']*)\1/;
+
+/**
+ * Remove secure-properties:config elements from XML content
+ * Handles both the self-closing and paired forms. Once no secure-properties
+ * elements remain, the namespace declaration and its schemaLocation entry are
+ * removed too, so the file still validates. Uses regex to preserve formatting.
  */
 export function removeSecurePropertiesConfig(content: string): string {
-  // Remove the entire <secure-properties:config>...</secure-properties:config> block
-  return content.replace(
-    /<secure-properties:config[^>]*>[\s\S]*?<\/secure-properties:config>/gm,
-    ''
+  return replaceSecurePropertiesConfig(content, () => '');
+}
+
+/**
+ * Replace each secure-properties:config element with the returned markup
+ * An empty replacement removes the element's line. Namespace cleanup works as in
+ * removeSecurePropertiesConfig.
+ */
+export function replaceSecurePropertiesConfig(
+  content: string,
+  replace: (element: string) => string
+): string {
+  // Replace whole lines when the element stands alone, otherwise just the element
+  let result = content
+    .replace(
+      new RegExp(`^([ \\t]*)(${SECURE_PROPERTIES_CONFIG})([ \\t]*\\r?\\n)`, 'gm'),
+      (_match, indent: string, element: string, eol: string) => {
+        const replacement = replace(element);
+        return replacement ? `${indent}${replacement}${eol}` : '';
+      }
+    )
+    .replace(new RegExp(SECURE_PROPERTIES_CONFIG, 'g'), (element) => replace(element));
+
+  if (result === content || result.includes('<secure-properties:')) {
+    return result;
+  }
+
+  const namespace = result.match(SECURE_PROPERTIES_NAMESPACE);
+  if (!namespace) {
+    return result;
+  }
+
+  result = result.replace(SECURE_PROPERTIES_NAMESPACE, '');
+
+  // Remove the "<namespace-uri> <xsd-url>" pair from xsi:schemaLocation
+  const uri = namespace[2].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pair = new RegExp(`^${uri}\\s+\\S+\\s*|\\s+${uri}\\s+\\S+`);
+  return result.replace(
+    /(xsi:schemaLocation\s*=\s*)(["'])([^"']*)\2/,
+    (_match, attribute: string, quote: string, value: string) =>
+      `${attribute}${quote}${value.replace(pair, '')}${quote}`
   );
 }
@@ -11,6 +11,16 @@ export {
   releaseVersion,
   stripSecure,
   enforceSecure,
+  encryptSecure,
+  decryptSecure,
+  checkProperties,
+  findUnusedProperties,
+  restoreBuild,
+  installHooks,
+  getDependencies,
+  setDependencyVersion,
+  upgradeDependencies,
+  checkPom,
 } from './api/index.js';
 
 // Types
@@ -25,14 +35,62 @@ export type {
   StripResult,
   EnforceOptions,
   EnforceResult,
+  SecurityViolation,
+  ViolationCommit,
+  ViolationKind,
+  SecureOptions,
+  SecureResult,
+  SecureAlgorithm,
+  SecureMode,
+  PropsCheckOptions,
+  PropsCheckResult,
+  MissingProperty,
+  PropsUnusedOptions,
+  PropsUnusedResult,
+  UnusedProperty,
+  RestoreOptions,
+  RestoreResult,
+  HooksInstallOptions,
+  HooksInstallResult,
+  DepsListOptions,
+  DepsListResult,
+  DepsSetOptions,
+  DepsUpgradeOptions,
+  DepsUpdateResult,
+  DependencyUpdate,
+  PomCheckOptions,
+  PomCheckResult,
+  PomIssue,
+  PomCheckRule,
+  DependencyInfo,
+  DependencyCategory,
+  DependencyStatus,
   DeploymentInfo,
   BuildEnvironment,
   BumpType,
   MuleBuildConfig,
   ProfileConfig,
+  SecurityConfig,
+  SecretDetectionConfig,
+  DependenciesConfig,
+  SensitivePatternsConfig,
+  SensitivePatternsMode,
+  ReportFormat,
   Result,
 } from './types/index.js';
 
+// Reporters
+export {
+  toSarif,
+  enforceToJunit,
+  stripToJunit,
+  enforceToText,
+  stripToText,
+  formatEnforceReport,
+  formatStripReport,
+} from './reporters/index.js';
+export type { SarifLog } from './reporters/index.js';
+
 // Utility exports for advanced usage
 export { ok, err } from './types/index.js';
 export { logger, setLogLevel } from './utils/logger.js';
@@ -0,0 +1,54 @@
+/**
+ * Reporters
+ *
+ * Render enforce and strip results in the format selected with --format.
+ */
+
+import { EnforceResult, StripResult, ReportFormat } from '../types/index.js';
+import { toSarif } from './sarif.js';
+import { enforceToJunit, stripToJunit } from './junit.js';
+import { enforceToText, stripToText } from './text.js';
+
+export { toSarif } from './sarif.js';
+export type { SarifLog } from './sarif.js';
+export { enforceToJunit, stripToJunit } from './junit.js';
+export { enforceToText, stripToText, depsToText } from './text.js';
+
+/**
+ * Formats supported by each command
+ */
+export const ENFORCE_REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit', 'sarif'];
+export const STRIP_REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit'];
+
+/**
+ * Render an enforce result
+ */
+export function formatEnforceReport(result: EnforceResult, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2) + '\n';
+    case 'junit':
+      return enforceToJunit(result);
+    case 'sarif':
+      return JSON.stringify(toSarif(result), null, 2) + '\n';
+    default:
+      return enforceToText(result);
+  }
+}
+
+/**
+ * Render a strip result (SARIF is not applicable: strip reports changes, not findings)
+ */
+export function formatStripReport(
+  result: StripResult,
+  format: Exclude<ReportFormat, 'sarif'>
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2) + '\n';
+    case 'junit':
+      return stripToJunit(result);
+    default:
+      return stripToText(result);
+  }
+}
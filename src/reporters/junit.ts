@@ -0,0 +1,106 @@
+/**
+ * JUnit Reporter
+ *
+ * Converts enforce and strip results to JUnit XML for CI test report views
+ * (Jenkins, GitLab). Each file is a testcase; each violation is a failure.
+ */
+
+import { EnforceResult, StripResult, FileChange, SecurityViolation } from '../types/index.js';
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Classname for a file: its directory in dotted form, e.g. src.main.mule
+ */
+function getClassname(file: string): string {
+  const parts = file.split(/[\\/]/);
+  return parts.length > 1 ? parts.slice(0, -1).join('.') : '.';
+}
+
+/**
+ * Name of the checked file a violation belongs to (file@sha for history scans)
+ */
+function getCheckedName(violation: SecurityViolation): string {
+  return violation.commit
+    ? `${violation.file}@${violation.commit.sha.slice(0, 7)}`
+    : violation.file;
+}
+
+/**
+ * Wrap testcases in a single named testsuite
+ */
+function toTestsuites(name: string, tests: number, failures: number, testcases: string[]): string {
+  const counts = `tests="${tests}" failures="${failures}" errors="0" skipped="0"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" ${counts}>`,
+    `  <testsuite name="${escapeXml(name)}" ${counts}>`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert an enforce result to JUnit XML
+ */
+export function enforceToJunit(result: EnforceResult): string {
+  let failures = 0;
+
+  const testcases = result.filesChecked.map((file) => {
+    const attributes = `classname="${escapeXml(getClassname(file))}" name="${escapeXml(file)}" file="${escapeXml(file)}"`;
+    const violations = result.violations.filter((v) => getCheckedName(v) === file);
+
+    if (violations.length === 0) {
+      return `    <testcase ${attributes}/>`;
+    }
+
+    failures++;
+    return [
+      `    <testcase ${attributes}>`,
+      ...violations.map((v) => {
+        const message = `${v.file}:${v.line ?? '?'} - ${v.value}`;
+        return `      <failure type="${v.kind}" message="${escapeXml(message)}">${escapeXml(`Suggestion: ${v.suggestion}`)}</failure>`;
+      }),
+      '    </testcase>',
+    ].join('\n');
+  });
+
+  return toTestsuites('mule-build enforce', result.filesChecked.length, failures, testcases);
+}
+
+/**
+ * Convert a strip result to JUnit XML
+ * Each processed file is a passing testcase listing its changed lines.
+ */
+export function stripToJunit(result: StripResult): string {
+  const testcases = result.filesProcessed.map((file) => {
+    const attributes = `classname="${escapeXml(getClassname(file))}" name="${escapeXml(file)}" file="${escapeXml(file)}"`;
+    const changes = result.changes.filter((c: FileChange) => c.file === file);
+
+    if (changes.length === 0) {
+      return `    <testcase ${attributes}/>`;
+    }
+
+    const output = changes.map((c) => `line ${c.line ?? '?'}: ${c.before} -> ${c.after}`);
+    return [
+      `    <testcase ${attributes}>`,
+      `      <system-out>${escapeXml(output.join('\n'))}</system-out>`,
+      '    </testcase>',
+    ].join('\n');
+  });
+
+  return toTestsuites('mule-build strip', result.filesProcessed.length, 0, testcases);
+}
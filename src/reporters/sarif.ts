@@ -0,0 +1,198 @@
+/**
+ * SARIF Reporter
+ *
+ * Converts enforce results to SARIF 2.1.0 for code-scanning dashboards
+ * (GitHub code scanning, GitLab, Azure DevOps, SonarQube).
+ */
+
+import { EnforceResult, SecurityViolation, ViolationKind } from '../types/index.js';
+
+/**
+ * SARIF physical location of a finding
+ */
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number; startColumn?: number; endColumn?: number };
+  };
+}
+
+/**
+ * SARIF result for a single violation
+ */
+interface SarifResult {
+  ruleId: ViolationKind;
+  ruleIndex: number;
+  level: 'error';
+  message: { text: string };
+  locations: SarifLocation[];
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      replacements: {
+        deletedRegion: { startLine: number; startColumn: number; endColumn: number };
+        insertedContent: { text: string };
+      }[];
+    }[];
+  }[];
+}
+
+/**
+ * SARIF 2.1.0 log
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: {
+          id: ViolationKind;
+          name: string;
+          shortDescription: { text: string };
+          fullDescription: { text: string };
+          defaultConfiguration: { level: 'error' };
+        }[];
+      };
+    };
+    originalUriBaseIds: Record<string, { description: { text: string } }>;
+    results: SarifResult[];
+  }[];
+}
+
+/**
+ * One rule per violation kind
+ */
+const RULES: { id: ViolationKind; name: string; short: string; full: string }[] = [
+  {
+    id: 'unsecured-reference',
+    name: 'UnsecuredPropertyReference',
+    short: 'Sensitive property referenced without secure::',
+    full: "A sensitive property is referenced as ${prop} or p('prop') instead of ${secure::prop}, so its value is read from plain configuration properties.",
+  },
+  {
+    id: 'plaintext-secret',
+    name: 'PlaintextSecret',
+    short: 'Sensitive property value is not encrypted',
+    full: 'A sensitive key in a .properties or YAML file holds a plaintext value instead of the ![...] encrypted form.',
+  },
+  {
+    id: 'hardcoded-credential',
+    name: 'HardcodedCredential',
+    short: 'Credential hardcoded in a Mule XML attribute',
+    full: 'A sensitive XML attribute holds a literal value instead of a ${secure::...} property reference.',
+  },
+  {
+    id: 'high-entropy-secret',
+    name: 'HighEntropySecret',
+    short: 'Value looks like a secret',
+    full: 'A value has the shape of a secret (private key, JSON Web Token, AWS access key ID) or is a long high-entropy string, whatever the name of its key.',
+  },
+];
+
+/**
+ * Convert an enforce result to a SARIF 2.1.0 log
+ */
+export function toSarif(result: EnforceResult): SarifLog {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'mule-build',
+            informationUri: 'https://github.com/Avinava/mule-build',
+            rules: RULES.map((rule) => ({
+              id: rule.id,
+              name: rule.name,
+              shortDescription: { text: rule.short },
+              fullDescription: { text: rule.full },
+              defaultConfiguration: { level: 'error' },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { description: { text: 'Mule project root' } },
+        },
+        results: result.violations.map(toSarifResult),
+      },
+    ],
+  };
+}
+
+/**
+ * Convert a single violation to a SARIF result
+ */
+function toSarifResult(violation: SecurityViolation): SarifResult {
+  const artifactLocation = {
+    uri: violation.file.split('\\').join('/'),
+    uriBaseId: 'SRCROOT',
+  };
+
+  const sarifResult: SarifResult = {
+    ruleId: violation.kind,
+    ruleIndex: RULES.findIndex((rule) => rule.id === violation.kind),
+    level: 'error',
+    message: {
+      text: `${RULES.find((rule) => rule.id === violation.kind)?.short}: ${violation.value}${
+        violation.commit
+          ? ` (committed in ${violation.commit.sha.slice(0, 7)} by ${violation.commit.author})`
+          : ''
+      }`,
+    },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation,
+          ...(violation.line !== undefined && {
+            region: {
+              startLine: violation.line,
+              ...(violation.column !== undefined && { startColumn: violation.column }),
+              ...(violation.endColumn !== undefined && { endColumn: violation.endColumn }),
+            },
+          }),
+        },
+      },
+    ],
+  };
+
+  // A replacement is only attached when the suggestion exactly replaces a known range
+  // of the current file (history findings point at old file versions). Only secure::
+  // references have such a suggestion; the others are templates like ${secure::<property.name>}
+  if (
+    violation.kind === 'unsecured-reference' &&
+    !violation.commit &&
+    violation.line !== undefined &&
+    violation.column !== undefined &&
+    violation.endColumn !== undefined
+  ) {
+    sarifResult.fixes = [
+      {
+        description: { text: violation.suggestion },
+        artifactChanges: [
+          {
+            artifactLocation,
+            replacements: [
+              {
+                deletedRegion: {
+                  startLine: violation.line,
+                  startColumn: violation.column,
+                  endColumn: violation.endColumn,
+                },
+                insertedContent: { text: violation.suggestion },
+              },
+            ],
+          },
+        ],
+      },
+    ];
+  } else {
+    sarifResult.message.text += `. Suggestion: ${violation.suggestion}`;
+  }
+
+  return sarifResult;
+}
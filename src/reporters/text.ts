@@ -0,0 +1,127 @@
+/**
+ * Text Reporter
+ *
+ * Plain-text (uncoloured) rendering of enforce, strip and deps results, for report files.
+ */
+
+import {
+  EnforceResult,
+  StripResult,
+  DepsListResult,
+  DependencyInfo,
+  DependencyCategory,
+} from '../types/index.js';
+import { formatDiff } from '../utils/diff.js';
+
+/**
+ * Convert an enforce result to plain text
+ */
+export function enforceToText(result: EnforceResult): string {
+  const lines = [`Checked ${result.filesChecked.length} files`];
+
+  if (result.suppressed > 0) {
+    lines.push(`Suppressed ${result.suppressed} finding(s) by ignore comments or allowlist`);
+  }
+  if (result.baselined) {
+    lines.push(`Skipped ${result.baselined} known finding(s) in the baseline`);
+  }
+
+  if (result.valid) {
+    lines.push('All sensitive properties are properly secured');
+  } else {
+    lines.push(`Found ${result.violations.length} unsecured sensitive properties:`);
+    for (const v of result.violations) {
+      lines.push(`  ${v.file}:${v.line ?? '?'} - ${v.value} [${v.kind}]`);
+      if (v.commit) {
+        lines.push(
+          `    Commit ${v.commit.sha.slice(0, 7)} by ${v.commit.author} <${v.commit.email}> on ${v.commit.date}`
+        );
+      }
+      lines.push(`    Suggestion: ${v.suggestion}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Convert a strip result to plain text
+ */
+export function stripToText(result: StripResult): string {
+  const lines = [
+    `${result.replacementCount} secure:: prefix(es) in ${result.filesProcessed.length} files`,
+    ...result.filesProcessed.map((file) => `  ${file}`),
+  ];
+
+  if (result.changes.length > 0) {
+    lines.push('', formatDiff(result.changes));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Headings for each dependency category
+ */
+const CATEGORY_HEADINGS: Record<DependencyCategory, string> = {
+  connector: 'Connectors',
+  module: 'Modules',
+  library: 'Libraries',
+  'mule-maven-plugin': 'Mule Maven Plugin',
+};
+
+/**
+ * Describe a dependency's version and catalog status
+ */
+function describeVersion(dependency: DependencyInfo, catalog: boolean): string {
+  const version = dependency.version ?? dependency.declaredVersion ?? '(no version)';
+  const parts = [
+    dependency.property ? `${version} (\${${dependency.property}})` : version,
+    dependency.managed ? 'managed' : '',
+  ];
+
+  if (catalog) {
+    if (dependency.status === 'blocked') {
+      parts.push(`BLOCKED${dependency.reason ? `: ${dependency.reason}` : ''}`);
+    } else if (dependency.status === 'outdated') {
+      parts.push(`outdated, latest ${dependency.latest}`);
+    } else if (dependency.status === 'unknown') {
+      parts.push(dependency.version ? 'not in catalog' : 'unresolved version');
+    }
+  }
+
+  return parts.filter(Boolean).join('  ');
+}
+
+/**
+ * Convert a deps list result to plain text, grouped by category
+ */
+export function depsToText(result: DepsListResult): string {
+  const lines: string[] = [];
+  const width = Math.max(
+    0,
+    ...result.dependencies.map((d) => `${d.groupId}:${d.artifactId}`.length)
+  );
+
+  for (const category of Object.keys(CATEGORY_HEADINGS) as DependencyCategory[]) {
+    const dependencies = result.dependencies.filter((d) => d.category === category);
+    if (dependencies.length === 0) continue;
+
+    lines.push(`${CATEGORY_HEADINGS[category]} (${dependencies.length})`);
+    for (const d of dependencies) {
+      const coordinates = `${d.groupId}:${d.artifactId}`.padEnd(width);
+      lines.push(`  ${coordinates}  ${describeVersion(d, result.catalog !== undefined)}`);
+    }
+    lines.push('');
+  }
+
+  if (result.catalog) {
+    lines.push(
+      `Checked against ${result.catalog}: ${result.outdated} outdated, ${result.blocked} blocked`
+    );
+  } else {
+    lines.push('No version catalog found; versions not checked');
+  }
+
+  return lines.join('\n') + '\n';
+}
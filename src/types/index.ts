@@ -11,6 +11,10 @@ export type BumpType = 'major' | 'minor' | 'patch';
 // Secure property processing modes
 export type ProcessMode = 'strip' | 'enforce';
 
+// Secure Properties encryption algorithms and modes
+export type SecureAlgorithm = 'AES' | 'Blowfish';
+export type SecureMode = 'CBC' | 'CFB' | 'ECB';
+
 /**
  * Result type for operations that can fail
  */
@@ -42,6 +46,10 @@ export interface PackageOptions {
   environment?: BuildEnvironment;
   /** Strip secure:: prefixes for local development (explicit opt-in) */
   stripSecure?: boolean;
+  /** Decrypt secure property files into plaintext copies and strip prefixes (local only) */
+  decryptSecure?: boolean;
+  /** Key for decryptSecure (defaults to MULE_SECURE_KEY env var) */
+  secureKey?: string;
   /** Include source code in package (for Studio import) */
   withSource?: boolean;
   /** Skip MUnit tests */
@@ -50,6 +58,10 @@ export interface PackageOptions {
   version?: string;
   /** Custom output directory for the built JAR (defaults to target/) */
   outputDir?: string;
+  /** Write the production security gate findings as SARIF to this file */
+  sarifOutput?: string;
+  /** Modify and build the project itself instead of an isolated workspace copy */
+  inPlace?: boolean;
   /** Working directory (defaults to cwd) */
   cwd?: string;
 }
@@ -87,6 +99,10 @@ export interface RunOptions {
   clean?: boolean;
   /** Strip secure:: prefixes for local development (explicit opt-in) */
   stripSecure?: boolean;
+  /** Decrypt secure property files into plaintext copies and strip prefixes */
+  decryptSecure?: boolean;
+  /** Key for decryptSecure (defaults to MULE_SECURE_KEY env var) */
+  secureKey?: string;
   /** Skip MUnit tests */
   skipTests?: boolean;
   /** Working directory (defaults to cwd) */
@@ -155,20 +171,45 @@ export interface StripResult {
   filesProcessed: string[];
   /** Number of replacements made */
   replacementCount: number;
-  /** Changes made (for dry-run) */
+  /** Changed lines (for dry-run) */
   changes: FileChange[];
 }
 
+/**
+ * Report formats for enforce and strip output
+ */
+export type ReportFormat = 'text' | 'json' | 'junit' | 'sarif';
+
 /**
  * Enforce command options
  */
 export interface EnforceOptions {
   /** Check a single file */
   file?: string;
-  /** Check all XML files in directory */
+  /** Check all XML and property files in directory */
   directory?: string;
   /** Custom sensitive property patterns */
   sensitivePatterns?: string[];
+  /** How sensitivePatterns combine with the configured patterns (default: replace) */
+  sensitivePatternsMode?: SensitivePatternsMode;
+  /** Property names or /regex/ never reported (defaults to security.allowlist in mule-build.yaml) */
+  allowlist?: string[];
+  /** Add missing secure:: prefixes to sensitive property references */
+  fix?: boolean;
+  /** With fix: show changes without modifying files */
+  dryRun?: boolean;
+  /** Scan every file version in git history for committed secrets instead of the working tree */
+  history?: boolean;
+  /** With history: only scan commits after this ref */
+  since?: string;
+  /** Check only the staged versions of staged files (pre-commit) */
+  staged?: boolean;
+  /** Check only files changed between this ref and the working tree */
+  changedSince?: string;
+  /** Write all current findings to .mule-build/enforce-baseline.json */
+  updateBaseline?: boolean;
+  /** Skip findings recorded in the baseline file (default true) */
+  baseline?: boolean;
   /** Working directory (defaults to cwd) */
   cwd?: string;
 }
@@ -183,29 +224,393 @@ export interface EnforceResult {
   filesChecked: string[];
   /** Violations found */
   violations: SecurityViolation[];
+  /** Findings skipped by ignore comments or the allowlist */
+  suppressed: number;
+  /** Known findings skipped because they are in the baseline */
+  baselined?: number;
+  /** Fixes applied (or previewed in dry-run) when fix was requested */
+  fixes?: EnforceFixResult;
+}
+
+/**
+ * Fixes applied by enforce --fix
+ */
+export interface EnforceFixResult {
+  /** Files that were (or would be) rewritten */
+  filesFixed: string[];
+  /** Number of secure:: prefixes added */
+  replacementCount: number;
+  /** Changed lines */
+  changes: FileChange[];
 }
 
+/**
+ * Kind of security violation found during enforce check
+ * - unsecured-reference: sensitive ${prop} / Mule::p('prop') without secure::
+ * - plaintext-secret: sensitive key in a property file with an unencrypted value
+ * - hardcoded-credential: sensitive XML attribute holding a literal instead of a reference
+ */
+export type ViolationKind =
+  | 'unsecured-reference'
+  | 'plaintext-secret'
+  | 'hardcoded-credential'
+  | 'high-entropy-secret';
+
 /**
  * Security violation found during enforce check
  */
 export interface SecurityViolation {
+  /** Kind of violation */
+  kind: ViolationKind;
   /** File where violation was found */
   file: string;
   /** Line number (if available) */
   line?: number;
-  /** The unsecured property value */
+  /** Column number of the finding (if available) */
+  column?: number;
+  /** Column just past the text the suggestion replaces (only when it is an exact replacement) */
+  endColumn?: number;
+  /** Property name involved (if available) */
+  property?: string;
+  /** The unsecured property value (secret values are masked) */
   value: string;
   /** Suggested fix */
   suggestion: string;
+  /** Commit that introduced the finding (history scans only) */
+  commit?: ViolationCommit;
+}
+
+/**
+ * Commit that introduced a finding in a history scan
+ */
+export interface ViolationCommit {
+  sha: string;
+  author: string;
+  email: string;
+  /** Author date (ISO 8601) */
+  date: string;
+}
+
+/**
+ * Props check command options
+ */
+export interface PropsCheckOptions {
+  /** Environment name substituted into property file paths (e.g. ${env}.yaml) */
+  env: string;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Props check command result
+ */
+export interface PropsCheckResult {
+  /** Whether every referenced property is defined */
+  valid: boolean;
+  /** Environment that was checked */
+  env: string;
+  /** Property files the references were resolved against */
+  propertyFiles: string[];
+  /** Number of references checked */
+  referencesChecked: number;
+  /** References with no matching key */
+  missing: MissingProperty[];
+}
+
+/**
+ * Property reference with no matching key in the environment's property files
+ */
+export interface MissingProperty {
+  /** Property key (without secure::) */
+  property: string;
+  /** Whether referenced with secure:: (must be in the secure properties file) */
+  secure: boolean;
+  /** File containing the reference */
+  file: string;
+  /** Line number of the reference */
+  line: number;
+  /** The reference as written */
+  value: string;
+}
+
+/**
+ * Props unused command options
+ */
+export interface PropsUnusedOptions {
+  /** Fail (valid: false) when more unused keys than this are found */
+  maxUnused?: number;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Props unused command result
+ */
+export interface PropsUnusedResult {
+  /** False when maxUnused is set and exceeded */
+  valid: boolean;
+  /** Property files that were checked */
+  propertyFiles: string[];
+  /** Checked property files that no configuration-properties element declares */
+  undeclaredFiles: string[];
+  /** Number of keys checked */
+  keysChecked: number;
+  /** Keys that nothing references */
+  unused: UnusedProperty[];
+  /** Threshold applied (if any) */
+  maxUnused?: number;
+}
+
+/**
+ * Property key that is never referenced
+ */
+export interface UnusedProperty {
+  /** Property key */
+  property: string;
+  /** File defining the key */
+  file: string;
+  /** Line number of the definition */
+  line: number;
+}
+
+/**
+ * Restore command options
+ */
+export interface RestoreOptions {
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Restore command result
+ */
+export interface RestoreResult {
+  /** Number of interrupted builds restored */
+  journals: number;
+  /** Files put back, relative to cwd */
+  filesRestored: string[];
+}
+
+/**
+ * Kind of pom.xml dependency
+ */
+export type DependencyCategory = 'connector' | 'module' | 'library' | 'mule-maven-plugin';
+
+/**
+ * How a dependency version compares with the catalog
+ * unknown: not in the catalog, or the version could not be resolved
+ */
+export type DependencyStatus = 'current' | 'outdated' | 'blocked' | 'unknown';
+
+/**
+ * A dependency (or the mule-maven-plugin) declared in pom.xml
+ */
+export interface DependencyInfo {
+  groupId: string;
+  artifactId: string;
+  category: DependencyCategory;
+  /** Version as written in pom.xml, e.g. ${http.connector.version} */
+  declaredVersion?: string;
+  /** Version after ${property} interpolation */
+  version?: string;
+  /** pom property holding the version, when declared as ${property} */
+  property?: string;
+  /** Whether the version comes from dependencyManagement */
+  managed?: boolean;
+  scope?: string;
+  classifier?: string;
+  status: DependencyStatus;
+  /** Latest version in the catalog */
+  latest?: string;
+  /** Why the version is blocked */
+  reason?: string;
+}
+
+/**
+ * Deps list command options
+ */
+export interface DepsListOptions {
+  /** Catalog file (defaults to dependencies.catalog in mule-build.yaml, then mule-build-catalog.yaml) */
+  catalog?: string;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Deps list command result
+ */
+export interface DepsListResult {
+  /** False when any dependency uses a blocked version */
+  valid: boolean;
+  /** Catalog file the versions were checked against, relative to cwd */
+  catalog?: string;
+  dependencies: DependencyInfo[];
+  /** Number of dependencies older than the catalog's latest version */
+  outdated: number;
+  /** Number of dependencies on a blocked version */
+  blocked: number;
+}
+
+/**
+ * Deps set command options
+ */
+export interface DepsSetOptions {
+  /** Artifact to update, as groupId:artifactId */
+  coordinates: string;
+  /** Version to set */
+  version: string;
+  /** Show changes without modifying pom.xml */
+  dryRun?: boolean;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Deps upgrade command options
+ */
+export interface DepsUpgradeOptions {
+  /** Catalog file (defaults to dependencies.catalog in mule-build.yaml, then mule-build-catalog.yaml) */
+  catalog?: string;
+  /** Show changes without modifying pom.xml */
+  dryRun?: boolean;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * A version changed in pom.xml
+ */
+export interface DependencyUpdate {
+  groupId: string;
+  artifactId: string;
+  /** Version before the update */
+  from?: string;
+  /** Version after the update */
+  to: string;
+  /** Element edited, e.g. project/properties/http.version */
+  location: string;
+  /** pom property edited, when the version is defined in <properties> */
+  property?: string;
+  /** Other artifacts (groupId:artifactId) whose version uses the same property */
+  sharedWith?: string[];
+}
+
+/**
+ * Deps set / upgrade command result
+ */
+export interface DepsUpdateResult {
+  /** Versions changed (or that would change in dry-run) */
+  updates: DependencyUpdate[];
+  /** Line-level changes to pom.xml */
+  changes: FileChange[];
+  /** Outdated or blocked dependencies that could not be upgraded (upgrade only) */
+  skipped: DependencyInfo[];
+  dryRun: boolean;
+}
+
+/**
+ * Rule that produced a pom check issue
+ */
+export type PomCheckRule =
+  | 'packaging'
+  | 'mule-maven-plugin'
+  | 'runtime-properties'
+  | 'repositories'
+  | 'maven-profile';
+
+/**
+ * Problem found in pom.xml
+ */
+export interface PomIssue {
+  rule: PomCheckRule;
+  /** Errors fail the check; warnings are reported only */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Line in pom.xml, when the issue can be located */
+  line?: number;
+}
+
+/**
+ * Pom check command options
+ */
+export interface PomCheckOptions {
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Pom check command result
+ */
+export interface PomCheckResult {
+  /** False when any error was found */
+  valid: boolean;
+  issues: PomIssue[];
+}
+
+/**
+ * Hooks install command options
+ */
+export interface HooksInstallOptions {
+  /** Replace an existing pre-commit hook not installed by mule-build */
+  force?: boolean;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Hooks install command result
+ */
+export interface HooksInstallResult {
+  /** Path of the installed hook */
+  hookPath: string;
+  /** True if an existing hook was overwritten */
+  replaced: boolean;
+}
+
+/**
+ * Secure encrypt/decrypt command options
+ */
+export interface SecureOptions {
+  /** Encryption key */
+  key: string;
+  /** Encrypt/decrypt a single value */
+  value?: string;
+  /** Encrypt/decrypt every value in a .properties or .yaml file */
+  file?: string;
+  /** Write the processed file here instead of in place */
+  output?: string;
+  /** Algorithm (default: AES) */
+  algorithm?: SecureAlgorithm;
+  /** Block cipher mode (default: CBC) */
+  mode?: SecureMode;
+  /** Use random IVs (must match useRandomIVs in secure-properties:config) */
+  useRandomIVs?: boolean;
+  /** Working directory (defaults to cwd) */
+  cwd?: string;
+}
+
+/**
+ * Secure encrypt/decrypt command result
+ */
+export interface SecureResult {
+  /** Processed value (single value mode) */
+  value?: string;
+  /** File that was written (file mode) */
+  file?: string;
+  /** Number of values processed */
+  count: number;
 }
 
 /**
- * File change for dry-run reporting
+ * Changed line for dry-run reporting
  */
 export interface FileChange {
   file: string;
+  /** Original line content ('' if the line was added) */
   before: string;
+  /** New line content ('' if the line was removed) */
   after: string;
+  /** Line number in the original file */
   line?: number;
 }
 
@@ -219,6 +624,55 @@ export interface MuleBuildConfig {
   profiles?: {
     [key: string]: ProfileConfig;
   };
+  security?: SecurityConfig;
+  dependencies?: DependenciesConfig;
+}
+
+/**
+ * Dependency checks configuration
+ */
+export interface DependenciesConfig {
+  /** Version catalog file, relative to the project (default: mule-build-catalog.yaml) */
+  catalog?: string;
+}
+
+/**
+ * Security configuration used by enforce and the production build gate
+ */
+export interface SecurityConfig {
+  /** Property names or /regex/ that are never reported as unsecured */
+  allowlist?: string[];
+  /** Sensitive property patterns, added to or replacing the defaults */
+  sensitivePatterns?: SensitivePatternsConfig;
+  /** Shape and entropy based secret detection */
+  secretDetection?: SecretDetectionConfig;
+}
+
+/**
+ * Thresholds for detecting secrets by shape and entropy instead of key names
+ */
+export interface SecretDetectionConfig {
+  /** Report high-entropy-secret findings (default true) */
+  enabled?: boolean;
+  /** Shortest string checked for entropy (default 24) */
+  minLength?: number;
+  /** Shannon entropy in bits per character at or above which a string is reported (default 4.0) */
+  minEntropy?: number;
+}
+
+/**
+ * How custom sensitive patterns combine with the base patterns
+ */
+export type SensitivePatternsMode = 'extend' | 'replace';
+
+/**
+ * Sensitive property patterns (case-insensitive regexes matched against property names)
+ */
+export interface SensitivePatternsConfig {
+  /** extend (default) adds to the base patterns, replace discards them */
+  mode?: SensitivePatternsMode;
+  /** Patterns, e.g. 'passphrase' or '^vault\\.' */
+  patterns: string[];
 }
 
 /**
@@ -0,0 +1,141 @@
+import { FileChange } from '../types/index.js';
+
+/**
+ * A changed line between two versions of a file
+ */
+export interface LineChange {
+  /** Line number in the original content (1-based) */
+  line: number;
+  /** Original line ('' if the line was added) */
+  before: string;
+  /** New line ('' if the line was removed) */
+  after: string;
+}
+
+/**
+ * Largest middle section (lines before x lines after) diffed with a full LCS table
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute the changed lines between two versions of a file
+ * Removed and added lines in the same region are paired up in order.
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Skip the common prefix and suffix
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // Same number of lines, or too large to align: compare position by position
+  if (midA.length === midB.length || midA.length * midB.length > MAX_LCS_CELLS) {
+    return pairRegion(midA, midB, start + 1);
+  }
+
+  // Longest common subsequence table, filled from the end
+  const cols = midB.length + 1;
+  const table = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        midA[i] === midB[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  // Walk the table, collecting regions of removed/added lines between equal lines
+  const changes: LineChange[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  let regionStart = 0;
+  let i = 0;
+  let j = 0;
+
+  const flush = () => {
+    changes.push(...pairRegion(removed, added, start + regionStart + 1));
+    removed = [];
+    added = [];
+  };
+
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      flush();
+      i++;
+      j++;
+      regionStart = i;
+    } else if (
+      j >= midB.length ||
+      (i < midA.length && table[(i + 1) * cols + j] >= table[i * cols + j + 1])
+    ) {
+      removed.push(midA[i++]);
+    } else {
+      added.push(midB[j++]);
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/**
+ * Pair removed and added lines of a single region
+ */
+function pairRegion(removed: string[], added: string[], firstLine: number): LineChange[] {
+  const changes: LineChange[] = [];
+  const count = Math.max(removed.length, added.length);
+
+  for (let k = 0; k < count; k++) {
+    const before = removed[k] ?? '';
+    const after = added[k] ?? '';
+    if (before !== after) {
+      changes.push({
+        line: firstLine + Math.min(k, Math.max(removed.length - 1, 0)),
+        before,
+        after,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Build per-line file changes for dry-run reporting
+ */
+export function getFileChanges(file: string, before: string, after: string): FileChange[] {
+  return diffLines(before, after).map((c) => ({ file, ...c }));
+}
+
+/**
+ * Format file changes as a unified-diff style report
+ */
+export function formatDiff(changes: FileChange[]): string {
+  const output: string[] = [];
+  let currentFile: string | undefined;
+
+  for (const change of changes) {
+    if (change.file !== currentFile) {
+      currentFile = change.file;
+      output.push(`--- a/${change.file}`, `+++ b/${change.file}`);
+    }
+
+    output.push(`@@ line ${change.line ?? '?'} @@`);
+    if (change.before !== '') output.push(`-${change.before}`);
+    if (change.after !== '') output.push(`+${change.after}`);
+  }
+
+  return output.join('\n');
+}
@@ -87,3 +87,174 @@ export async function pushWithTags(cwd: string = process.cwd()): Promise<Result<
 
   return ok(undefined);
 }
+
+/**
+ * A commit with its author
+ */
+export interface CommitInfo {
+  sha: string;
+  author: string;
+  email: string;
+  /** Author date (ISO 8601) */
+  date: string;
+}
+
+/**
+ * Quote an argument for the shell used by exec
+ */
+function quoteArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * List commits reachable from HEAD, oldest first
+ * With `since`, only commits after that ref are listed (since..HEAD).
+ */
+export async function getCommits(
+  since?: string,
+  cwd: string = process.cwd()
+): Promise<Result<CommitInfo[]>> {
+  const args = ['log', '--reverse', '--format=%H%x1f%an%x1f%ae%x1f%aI'];
+  if (since) {
+    args.push(quoteArg(`${since}..HEAD`));
+  }
+
+  const result = await exec('git', args, { cwd });
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to list commits: ${result.data?.stderr.trim()}`));
+  }
+
+  const commits = result.data.stdout
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const [sha, author, email, date] = line.split('\x1f');
+      return { sha, author, email, date };
+    });
+
+  return ok(commits);
+}
+
+/**
+ * List files added or modified by a commit
+ */
+export async function getChangedFiles(
+  sha: string,
+  cwd: string = process.cwd()
+): Promise<Result<string[]>> {
+  const result = await exec(
+    'git',
+    ['diff-tree', '--no-commit-id', '-r', '--root', '--name-only', '--diff-filter=AM', '-z', sha],
+    { cwd }
+  );
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to list files changed in ${sha}: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout.split('\0').filter((file) => file !== ''));
+}
+
+/**
+ * Read a file as it was in a commit
+ */
+export async function getFileAtCommit(
+  sha: string,
+  file: string,
+  cwd: string = process.cwd()
+): Promise<Result<string>> {
+  const result = await exec('git', ['show', quoteArg(`${sha}:${file}`)], { cwd });
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to read ${file} at ${sha}: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout);
+}
+
+/**
+ * Refs accepted from users (passed to git through a shell)
+ */
+const SAFE_REF = /^[A-Za-z0-9._/@^~-]+$/;
+
+/**
+ * Check that a ref is safe to pass to git
+ */
+export function isValidRef(ref: string): boolean {
+  return SAFE_REF.test(ref);
+}
+
+/**
+ * List staged files (added, copied, modified or renamed), relative to cwd
+ */
+export async function getStagedFiles(cwd: string = process.cwd()): Promise<Result<string[]>> {
+  const result = await exec(
+    'git',
+    ['diff', '--cached', '--name-only', '--diff-filter=ACMR', '--relative', '-z'],
+    { cwd }
+  );
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to list staged files: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout.split('\0').filter((file) => file !== ''));
+}
+
+/**
+ * List files that differ between a ref and the working tree, relative to cwd
+ * Covers commits after the ref as well as uncommitted changes to tracked files.
+ */
+export async function getFilesChangedSince(
+  ref: string,
+  cwd: string = process.cwd()
+): Promise<Result<string[]>> {
+  const result = await exec(
+    'git',
+    ['diff', '--name-only', '--diff-filter=ACMR', '--relative', '-z', quoteArg(ref), '--'],
+    { cwd }
+  );
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(
+      new Error(`Failed to list files changed since ${ref}: ${result.data?.stderr.trim()}`)
+    );
+  }
+
+  return ok(result.data.stdout.split('\0').filter((file) => file !== ''));
+}
+
+/**
+ * Read the staged version of a file (path relative to cwd)
+ */
+export async function getStagedFile(
+  file: string,
+  cwd: string = process.cwd()
+): Promise<Result<string>> {
+  const result = await exec('git', ['show', quoteArg(`:./${file}`)], { cwd });
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to read staged ${file}: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout);
+}
+
+/**
+ * Get the directory git runs hooks from (honours core.hooksPath)
+ */
+export async function getHooksDir(cwd: string = process.cwd()): Promise<Result<string>> {
+  const result = await exec('git', ['rev-parse', '--git-path', 'hooks'], { cwd });
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to locate git hooks directory: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout.trim());
+}
+
+/**
+ * Get the path of cwd relative to the repository root ('' at the root)
+ */
+export async function getRepoPrefix(cwd: string = process.cwd()): Promise<Result<string>> {
+  const result = await exec('git', ['rev-parse', '--show-prefix'], { cwd });
+  if (!result.success || result.data?.exitCode !== 0) {
+    return err(new Error(`Failed to locate repository root: ${result.data?.stderr.trim()}`));
+  }
+
+  return ok(result.data.stdout.trim());
+}
@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
 
 let currentLevel: LogLevel = 'info';
 let mcpMode = false;
@@ -10,6 +10,7 @@ const levels: Record<LogLevel, number> = {
   info: 1,
   warn: 2,
   error: 3,
+  silent: 4,
 };
 
 /**
@@ -0,0 +1,22 @@
+import { createInterface } from 'readline/promises';
+import { Writable } from 'stream';
+
+/**
+ * Ask for a secret on the terminal without echoing it
+ * The question goes to stderr so stdout stays clean for machine-readable output.
+ */
+export async function promptSecret(question: string): Promise<string> {
+  process.stderr.write(question);
+
+  const muted = new Writable({
+    write: (_chunk, _encoding, callback) => callback(),
+  });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+
+  try {
+    return await rl.question('');
+  } finally {
+    rl.close();
+    process.stderr.write('\n');
+  }
+}
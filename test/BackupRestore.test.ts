@@ -4,6 +4,8 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   getXmlFiles,
+  getMuleSourceFiles,
+  stripSecure,
   stripSecureFromContent,
   removeSecurePropertiesConfig,
 } from '../src/engine/XmlProcessor.js';
@@ -46,6 +48,52 @@ describe('XmlProcessor Backup/Restore', () => {
     });
   });
 
+  describe('getMuleSourceFiles', () => {
+    it('should find XML and DataWeave files recursively', () => {
+      mkdirSync(join(TEST_DIR, 'src', 'main', 'mule', 'dwl'), { recursive: true });
+      writeFileSync(join(TEST_DIR, 'src', 'main', 'mule', 'global.xml'), '<mule/>');
+      writeFileSync(join(TEST_DIR, 'src', 'main', 'mule', 'dwl', 'transform.dwl'), '%dw 2.0');
+      writeFileSync(join(TEST_DIR, 'src', 'main', 'mule', 'readme.txt'), 'not source');
+
+      const files = getMuleSourceFiles(join(TEST_DIR, 'src', 'main', 'mule'));
+
+      expect(files.length).toBe(2);
+      expect(files.some((f) => f.endsWith('transform.dwl'))).toBe(true);
+    });
+  });
+
+  describe('stripSecure dry-run', () => {
+    it('should report every changed line without modifying files', async () => {
+      const file = join(TEST_DIR, 'src', 'main', 'mule', 'global.xml');
+      const content = `<mule>
+  <db:config user="\${secure::db.user}"
+      password="\${secure::db.password}"/>
+</mule>`;
+      writeFileSync(file, content);
+
+      const result = await stripSecure(join(TEST_DIR, 'src', 'main', 'mule'), {
+        dryRun: true,
+        cwd: TEST_DIR,
+      });
+
+      expect(result.data?.changes).toEqual([
+        {
+          file: join('src', 'main', 'mule', 'global.xml'),
+          line: 2,
+          before: '  <db:config user="${secure::db.user}"',
+          after: '  <db:config user="${db.user}"',
+        },
+        {
+          file: join('src', 'main', 'mule', 'global.xml'),
+          line: 3,
+          before: '      password="${secure::db.password}"/>',
+          after: '      password="${db.password}"/>',
+        },
+      ]);
+      expect(readFileSync(file, 'utf-8')).toBe(content);
+    });
+  });
+
   describe('stripSecureFromContent', () => {
     it('should strip ${secure::prop} format', () => {
       const content = 'password="${secure::db.password}"';
@@ -99,6 +147,37 @@ describe('XmlProcessor Backup/Restore', () => {
       expect(result).toContain('http:listener-config');
     });
 
+    it('should remove the self-closing form', () => {
+      const content = [
+        '<mule>',
+        '  <secure-properties:config name="secure" file="secure.yaml" key="${key}"/>',
+        '  <configuration-properties file="config.yaml"/>',
+        '</mule>',
+      ].join('\n');
+      const result = removeSecurePropertiesConfig(content);
+
+      expect(result).toBe('<mule>\n  <configuration-properties file="config.yaml"/>\n</mule>');
+    });
+
+    it('should remove the namespace declaration and schema location', () => {
+      const content = `<mule xmlns="http://www.mulesoft.org/schema/mule/core"
+      xmlns:secure-properties="http://www.mulesoft.org/schema/mule/secure-properties"
+      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+      xsi:schemaLocation="http://www.mulesoft.org/schema/mule/core http://www.mulesoft.org/schema/mule/core/current/mule.xsd
+http://www.mulesoft.org/schema/mule/secure-properties http://www.mulesoft.org/schema/mule/secure-properties/current/mule-secure-properties.xsd">
+  <secure-properties:config name="secure" file="secure.yaml" key="\${key}">
+    <secure-properties:encrypt algorithm="AES"/>
+  </secure-properties:config>
+</mule>`;
+      const result = removeSecurePropertiesConfig(content);
+
+      expect(result).not.toContain('secure-properties');
+      expect(result).toContain(
+        'xsi:schemaLocation="http://www.mulesoft.org/schema/mule/core http://www.mulesoft.org/schema/mule/core/current/mule.xsd">'
+      );
+      expect(result).toContain('xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"');
+    });
+
     it('should handle content without secure-properties:config', () => {
       const content = '<mule><flow name="test"/></mule>';
       const result = removeSecurePropertiesConfig(content);
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  BASELINE_FILE,
+  computeFingerprints,
+  applyBaseline,
+  loadBaseline,
+} from '../src/engine/Baseline.js';
+import { enforceSecure } from '../src/api/enforce.js';
+import { setLogLevel } from '../src/utils/logger.js';
+import { EnforceResult, SecurityViolation } from '../src/types/index.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-baseline-test-' + Date.now());
+const GLOBAL_XML = join(TEST_DIR, 'src', 'main', 'mule', 'global.xml');
+
+const reference = (line: number): SecurityViolation => ({
+  kind: 'unsecured-reference',
+  file: 'src/main/mule/global.xml',
+  line,
+  property: 'db.password',
+  value: '${db.password}',
+  suggestion: '${secure::db.password}',
+});
+
+describe('Baseline', () => {
+  beforeEach(() => {
+    setLogLevel('silent');
+    mkdirSync(join(TEST_DIR, 'src', 'main', 'mule'), { recursive: true });
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should fingerprint findings by content, not line numbers', () => {
+    const [a] = computeFingerprints([reference(3)]);
+    const [b] = computeFingerprints([reference(42)]);
+    const [first, second] = computeFingerprints([reference(3), reference(7)]);
+
+    expect(a).toBe(b);
+    expect(first).toBe(a);
+    expect(second).not.toBe(first);
+  });
+
+  it('should drop baselined violations and keep new ones', () => {
+    const result: EnforceResult = {
+      valid: false,
+      filesChecked: ['src/main/mule/global.xml'],
+      violations: [reference(3), reference(7)],
+      suppressed: 0,
+    };
+    const [fingerprint] = computeFingerprints([reference(10)]);
+
+    const filtered = applyBaseline(result, {
+      version: 1,
+      createdAt: '',
+      findings: [{ fingerprint, kind: 'unsecured-reference', file: 'src/main/mule/global.xml' }],
+    });
+
+    expect(filtered.valid).toBe(false);
+    expect(filtered.baselined).toBe(1);
+    expect(filtered.violations.map((v) => v.line)).toEqual([7]);
+  });
+
+  it('should fail enforce only on findings added after the baseline', async () => {
+    writeFileSync(GLOBAL_XML, '<mule>\n  <db:config password="${db.password}"/>\n</mule>');
+
+    const updated = await enforceSecure({ cwd: TEST_DIR, updateBaseline: true });
+    expect(updated.data?.valid).toBe(true);
+    expect(updated.data?.baselined).toBe(1);
+    expect(loadBaseline(TEST_DIR).data?.findings[0]).toMatchObject({
+      kind: 'unsecured-reference',
+      file: 'src/main/mule/global.xml',
+      property: 'db.password',
+    });
+    expect(readFileSync(join(TEST_DIR, BASELINE_FILE), 'utf-8')).not.toContain('"line"');
+
+    // Moving the known finding keeps it baselined; a new one fails
+    writeFileSync(
+      GLOBAL_XML,
+      '<mule>\n  <http:config/>\n  <db:config password="${db.password}"/>\n  <x token="${api.token}"/>\n</mule>'
+    );
+    const result = await enforceSecure({ cwd: TEST_DIR });
+
+    expect(result.data?.valid).toBe(false);
+    expect(result.data?.violations.map((v) => v.property)).toEqual(['api.token']);
+
+    const all = await enforceSecure({ cwd: TEST_DIR, baseline: false });
+    expect(all.data?.violations).toHaveLength(2);
+  });
+
+  it('should refuse to rewrite the baseline from a single file or directory', async () => {
+    writeFileSync(GLOBAL_XML, '<mule>\n  <db:config password="${db.password}"/>\n</mule>');
+    await enforceSecure({ cwd: TEST_DIR, updateBaseline: true });
+
+    const byFile = await enforceSecure({
+      cwd: TEST_DIR,
+      file: 'src/main/mule/global.xml',
+      updateBaseline: true,
+    });
+    const byDirectory = await enforceSecure({
+      cwd: TEST_DIR,
+      directory: 'src/main/resources',
+      updateBaseline: true,
+    });
+
+    expect(byFile.error?.message).toContain('Cannot combine updateBaseline with file or directory');
+    expect(byDirectory.success).toBe(false);
+    expect(loadBaseline(TEST_DIR).data?.findings).toHaveLength(1);
+  });
+});
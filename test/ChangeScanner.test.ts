@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { execSync } from 'child_process';
+import { getChangedEnforceableFiles, enforceStaged } from '../src/engine/ChangeScanner.js';
+import { installHooks } from '../src/api/hooks.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-changes-test-' + Date.now());
+const MULE_DIR = join(TEST_DIR, 'src', 'main', 'mule');
+
+function git(args: string): string {
+  return execSync(`git -c user.name="Dev One" -c user.email=dev@example.com ${args}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+describe('ChangeScanner', () => {
+  beforeEach(() => {
+    mkdirSync(MULE_DIR, { recursive: true });
+    git('init -q');
+    writeFileSync(
+      join(MULE_DIR, 'global.xml'),
+      '<mule>\n  <db:config password="${db.password}"/>\n</mule>'
+    );
+    writeFileSync(join(MULE_DIR, 'api.xml'), '<mule/>');
+    git('add -A');
+    git('commit -q -m "Initial"');
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should list only staged enforceable files inside the roots', async () => {
+    writeFileSync(join(MULE_DIR, 'api.xml'), '<mule><x/></mule>');
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project/>');
+    writeFileSync(join(MULE_DIR, 'notes.txt'), 'notes');
+    git('add -A');
+
+    const result = await getChangedEnforceableFiles(TEST_DIR, { staged: true }, [MULE_DIR]);
+
+    expect(result.data).toEqual([join(MULE_DIR, 'api.xml')]);
+  });
+
+  it('should list files changed since a ref, including uncommitted changes', async () => {
+    const base = git('rev-parse HEAD');
+    writeFileSync(join(MULE_DIR, 'flow.xml'), '<mule/>');
+    git('add -A');
+    git('commit -q -m "Add flow"');
+    writeFileSync(join(MULE_DIR, 'api.xml'), '<mule><x/></mule>');
+
+    const result = await getChangedEnforceableFiles(TEST_DIR, { since: base }, [MULE_DIR]);
+
+    expect(result.data?.sort()).toEqual([join(MULE_DIR, 'api.xml'), join(MULE_DIR, 'flow.xml')]);
+  });
+
+  it('should reject unsafe refs', async () => {
+    const result = await getChangedEnforceableFiles(TEST_DIR, { since: 'main; rm -rf /' }, [
+      MULE_DIR,
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('Invalid git ref');
+  });
+
+  it('should check the staged version rather than the working tree', async () => {
+    const file = join(MULE_DIR, 'api.xml');
+    writeFileSync(file, '<mule>\n  <http:config password="hunter2"/>\n</mule>');
+    git('add -A');
+    writeFileSync(file, '<mule>\n  <http:config password="${secure::http.password}"/>\n</mule>');
+
+    const result = await enforceStaged([file], { cwd: TEST_DIR });
+
+    expect(result.data?.valid).toBe(false);
+    expect(result.data?.filesChecked).toEqual([join('src', 'main', 'mule', 'api.xml')]);
+    expect(result.data?.violations[0]).toMatchObject({ kind: 'hardcoded-credential', line: 2 });
+  });
+});
+
+describe('installHooks', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    // Ignore hooks paths set by the developer's own git config
+    process.env.GIT_CONFIG_GLOBAL = '/dev/null';
+    process.env.GIT_CONFIG_NOSYSTEM = '1';
+    delete process.env.GIT_CONFIG_COUNT;
+    delete process.env.GIT_CONFIG_PARAMETERS;
+
+    setLogLevel('silent');
+    mkdirSync(TEST_DIR, { recursive: true });
+    git('init -q');
+    git('config core.hooksPath .githooks');
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should write an executable pre-commit hook running enforce --staged', async () => {
+    const result = await installHooks({ cwd: TEST_DIR });
+    const hookPath = join(TEST_DIR, '.githooks', 'pre-commit');
+
+    expect(result.data).toEqual({ hookPath, replaced: false });
+    expect(readFileSync(hookPath, 'utf-8')).toContain('mule-build enforce --staged');
+    expect(statSync(hookPath).mode & 0o111).not.toBe(0);
+
+    // Reinstalling replaces our own hook
+    expect((await installHooks({ cwd: TEST_DIR })).data?.replaced).toBe(true);
+  });
+
+  it('should cd into projects below the repository root', async () => {
+    const project = join(TEST_DIR, 'apps', 'orders');
+    mkdirSync(project, { recursive: true });
+
+    const result = await installHooks({ cwd: project });
+
+    expect(readFileSync(result.data!.hookPath, 'utf-8')).toContain("cd 'apps/orders/' || exit 1");
+  });
+
+  it('should not overwrite a foreign hook without force', async () => {
+    mkdirSync(join(TEST_DIR, '.githooks'));
+    writeFileSync(join(TEST_DIR, '.githooks', 'pre-commit'), '#!/bin/sh\nnpm test\n');
+
+    const result = await installHooks({ cwd: TEST_DIR });
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('already exists');
+
+    const forced = await installHooks({ cwd: TEST_DIR, force: true });
+    expect(forced.data?.replaced).toBe(true);
+  });
+});
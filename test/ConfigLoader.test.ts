@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadConfig,
+  getSensitivePatterns,
+  resolveSensitivePatterns,
+} from '../src/config/ConfigLoader.js';
+import { DEFAULT_SENSITIVE_PATTERNS } from '../src/engine/XmlProcessor.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-config-test-' + Date.now());
+
+describe('ConfigLoader', () => {
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  describe('sensitive patterns', () => {
+    it('should extend the defaults unless mode is replace', () => {
+      expect(resolveSensitivePatterns(undefined)).toEqual(DEFAULT_SENSITIVE_PATTERNS);
+      expect(resolveSensitivePatterns({ patterns: ['passphrase'] })).toEqual([
+        ...DEFAULT_SENSITIVE_PATTERNS,
+        'passphrase',
+      ]);
+      expect(resolveSensitivePatterns({ mode: 'replace', patterns: ['^vault\\.'] })).toEqual([
+        '^vault\\.',
+      ]);
+    });
+
+    it('should load patterns from mule-build.yaml', () => {
+      writeFileSync(
+        join(TEST_DIR, 'mule-build.yaml'),
+        'security:\n  sensitivePatterns:\n    mode: replace\n    patterns:\n      - pin\n'
+      );
+      const result = loadConfig(TEST_DIR);
+
+      expect(result.success).toBe(true);
+      expect(getSensitivePatterns(result.data!)).toEqual(['pin']);
+    });
+
+    it('should reject invalid regexes and modes', () => {
+      writeFileSync(
+        join(TEST_DIR, 'mule-build.yaml'),
+        'security:\n  sensitivePatterns:\n    patterns:\n      - "pass("\n'
+      );
+      expect(loadConfig(TEST_DIR).error?.message).toContain('not a valid regex');
+
+      writeFileSync(
+        join(TEST_DIR, 'mule-build.yaml'),
+        'security:\n  sensitivePatterns:\n    mode: merge\n    patterns: [pin]\n'
+      );
+      expect(loadConfig(TEST_DIR).success).toBe(false);
+    });
+
+    it('should reject invalid allowlist regexes', () => {
+      writeFileSync(join(TEST_DIR, 'mule-build.yaml'), 'security:\n  allowlist:\n    - /a[/\n');
+
+      expect(loadConfig(TEST_DIR).success).toBe(false);
+    });
+  });
+
+  describe('secret detection', () => {
+    it('should load thresholds and reject invalid ones', () => {
+      writeFileSync(
+        join(TEST_DIR, 'mule-build.yaml'),
+        'security:\n  secretDetection:\n    minLength: 32\n    minEntropy: 4.5\n'
+      );
+      expect(loadConfig(TEST_DIR).data?.security?.secretDetection).toEqual({
+        minLength: 32,
+        minEntropy: 4.5,
+      });
+
+      writeFileSync(
+        join(TEST_DIR, 'mule-build.yaml'),
+        'security:\n  secretDetection:\n    minLength: -1\n'
+      );
+      expect(loadConfig(TEST_DIR).error?.message).toContain('minLength');
+    });
+  });
+});
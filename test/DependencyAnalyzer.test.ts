@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parsePom } from '../src/engine/PomModel.js';
+import { listDependencies } from '../src/engine/DependencyAnalyzer.js';
+import { loadCatalog } from '../src/engine/DependencyCatalog.js';
+import { getDependencies } from '../src/api/deps.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-deps-test-' + Date.now());
+
+const POM = `<project>
+  <groupId>com.acme</groupId>
+  <artifactId>orders-api</artifactId>
+  <version>1.0.0</version>
+  <properties>
+    <connectors.version>1.9.3</connectors.version>
+    <http.version>\${connectors.version}</http.version>
+    <mule.maven.plugin.version>4.1.1</mule.maven.plugin.version>
+  </properties>
+  <dependencyManagement>
+    <dependencies>
+      <dependency>
+        <groupId>com.fasterxml.jackson.core</groupId>
+        <artifactId>jackson-databind</artifactId>
+        <version>2.13.0</version>
+      </dependency>
+    </dependencies>
+  </dependencyManagement>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.modules</groupId>
+      <artifactId>mule-apikit-module</artifactId>
+      <version>1.10.4</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.connectors</groupId>
+      <artifactId>mule-http-connector</artifactId>
+      <version>\${http.version}</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>com.acme</groupId>
+      <artifactId>acme-utils</artifactId>
+      <version>\${missing.version}</version>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.mule.tools.maven</groupId>
+        <artifactId>mule-maven-plugin</artifactId>
+        <version>\${mule.maven.plugin.version}</version>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`;
+
+const CATALOG = `artifacts:
+  org.mule.connectors:mule-http-connector:
+    latest: 1.10.3
+  com.fasterxml.jackson.core:jackson-databind:
+    latest: 2.17.1
+    blocked:
+      - versions: "<2.13.4"
+        reason: CVE-2022-42003
+  org.mule.tools.maven:mule-maven-plugin:
+    latest: 4.1.1
+`;
+
+describe('DependencyAnalyzer', () => {
+  beforeEach(() => {
+    setLogLevel('silent');
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'pom.xml'), POM);
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should group dependencies and resolve versions from pom properties', () => {
+    const dependencies = listDependencies(parsePom(POM).data!);
+
+    expect(dependencies.map((d) => [d.artifactId, d.category, d.version])).toEqual([
+      ['mule-http-connector', 'connector', '1.9.3'],
+      ['mule-apikit-module', 'module', '1.10.4'],
+      ['jackson-databind', 'library', '2.13.0'],
+      ['acme-utils', 'library', undefined],
+      ['mule-maven-plugin', 'mule-maven-plugin', '4.1.1'],
+    ]);
+    expect(dependencies[0]).toMatchObject({
+      declaredVersion: '${http.version}',
+      property: 'http.version',
+      status: 'unknown',
+    });
+    expect(dependencies[2].managed).toBe(true);
+    expect(dependencies[3].declaredVersion).toBe('${missing.version}');
+  });
+
+  it('should flag outdated and blocked versions from the catalog', () => {
+    writeFileSync(join(TEST_DIR, 'catalog.yaml'), CATALOG);
+    const catalog = loadCatalog(join(TEST_DIR, 'catalog.yaml')).data!;
+
+    const byName = Object.fromEntries(
+      listDependencies(parsePom(POM).data!, catalog).map((d) => [d.artifactId, d])
+    );
+
+    expect(byName['mule-http-connector']).toMatchObject({ status: 'outdated', latest: '1.10.3' });
+    expect(byName['jackson-databind']).toMatchObject({
+      status: 'blocked',
+      reason: 'CVE-2022-42003',
+    });
+    expect(byName['mule-maven-plugin'].status).toBe('current');
+    expect(byName['mule-apikit-module'].status).toBe('unknown');
+  });
+
+  it('should reject invalid catalog entries', () => {
+    writeFileSync(
+      join(TEST_DIR, 'catalog.yaml'),
+      'artifacts:\n  org.mule.connectors:mule-http-connector:\n    blocked:\n      - versions: "not a range"\n'
+    );
+
+    const result = loadCatalog(join(TEST_DIR, 'catalog.yaml'));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('invalid versions range');
+  });
+
+  it('should use mule-build-catalog.yaml by default and fail on blocked versions', async () => {
+    const unchecked = await getDependencies({ cwd: TEST_DIR });
+    expect(unchecked.data).toMatchObject({ valid: true, outdated: 0, blocked: 0 });
+    expect(unchecked.data?.catalog).toBeUndefined();
+
+    writeFileSync(join(TEST_DIR, 'mule-build-catalog.yaml'), CATALOG);
+    const result = await getDependencies({ cwd: TEST_DIR });
+
+    expect(result.data).toMatchObject({
+      valid: false,
+      catalog: 'mule-build-catalog.yaml',
+      outdated: 1,
+      blocked: 1,
+    });
+  });
+
+  it('should fail when an explicit catalog is missing', async () => {
+    const result = await getDependencies({ cwd: TEST_DIR, catalog: 'shared/catalog.yaml' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('Catalog not found');
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyVersionChanges } from '../src/engine/DependencyUpdater.js';
+import { setDependencyVersion, upgradeDependencies } from '../src/api/deps.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-deps-update-test-' + Date.now());
+
+const POM = `<project>
+  <groupId>com.acme</groupId>
+  <artifactId>orders-api</artifactId>
+  <version>1.0.0</version>
+  <properties>
+    <connectors.version>1.9.3</connectors.version>
+    <http.version>\${connectors.version}</http.version>
+    <mule.maven.plugin.version>4.1.1</mule.maven.plugin.version>
+  </properties>
+  <dependencyManagement>
+    <dependencies>
+      <dependency>
+        <groupId>com.fasterxml.jackson.core</groupId>
+        <artifactId>jackson-databind</artifactId>
+        <version>2.13.0</version>
+      </dependency>
+    </dependencies>
+  </dependencyManagement>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.connectors</groupId>
+      <artifactId>mule-http-connector</artifactId>
+      <version>\${http.version}</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.connectors</groupId>
+      <artifactId>mule-sockets-connector</artifactId>
+      <version>\${connectors.version}</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.modules</groupId>
+      <artifactId>mule-apikit-module</artifactId>
+      <version>1.10.4</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>com.acme</groupId>
+      <artifactId>acme-utils</artifactId>
+      <version>\${project.version}-shaded</version>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.mule.tools.maven</groupId>
+        <artifactId>mule-maven-plugin</artifactId>
+        <version>\${mule.maven.plugin.version}</version>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`;
+
+describe('DependencyUpdater', () => {
+  it('should edit a direct version in place', () => {
+    const result = applyVersionChanges(POM, [
+      { groupId: 'org.mule.modules', artifactId: 'mule-apikit-module', version: '1.11.0' },
+    ]).data!;
+
+    expect(result.content).toBe(
+      POM.replace('<version>1.10.4</version>', '<version>1.11.0</version>')
+    );
+    expect(result.updates[0]).toMatchObject({ from: '1.10.4', to: '1.11.0' });
+  });
+
+  it('should edit the property a version refers to, following nested references', () => {
+    const result = applyVersionChanges(POM, [
+      { groupId: 'org.mule.connectors', artifactId: 'mule-http-connector', version: '1.10.3' },
+    ]).data!;
+
+    expect(result.content).toBe(
+      POM.replace(
+        '<connectors.version>1.9.3</connectors.version>',
+        '<connectors.version>1.10.3</connectors.version>'
+      )
+    );
+    expect(result.updates[0]).toMatchObject({
+      property: 'connectors.version',
+      location: 'project/properties/connectors.version',
+      sharedWith: ['org.mule.connectors:mule-sockets-connector'],
+    });
+  });
+
+  it('should edit dependencyManagement for managed dependencies and plugin versions', () => {
+    const result = applyVersionChanges(POM, [
+      { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-databind', version: '2.17.1' },
+      { groupId: 'org.mule.tools.maven', artifactId: 'mule-maven-plugin', version: '4.2.0' },
+    ]).data!;
+
+    expect(result.content).toContain('<version>2.17.1</version>');
+    expect(result.content).toContain(
+      '<mule.maven.plugin.version>4.2.0</mule.maven.plugin.version>'
+    );
+    expect(result.updates.map((u) => u.location)).toEqual([
+      'project/dependencyManagement/dependencies/dependency[0]/version',
+      'project/properties/mule.maven.plugin.version',
+    ]);
+  });
+
+  it('should edit versions defined in profile <properties>', () => {
+    const pom = POM.replace(
+      '</build>',
+      `</build>
+  <profiles>
+    <profile>
+      <id>mule-4.9</id>
+      <properties>
+        <mule.maven.plugin.version>4.3.0</mule.maven.plugin.version>
+        <db.version>1.14.0</db.version>
+      </properties>
+      <dependencies>
+        <dependency>
+          <groupId>org.mule.connectors</groupId>
+          <artifactId>mule-db-connector</artifactId>
+          <version>\${db.version}</version>
+        </dependency>
+      </dependencies>
+    </profile>
+  </profiles>`
+    );
+
+    const result = applyVersionChanges(pom, [
+      { groupId: 'org.mule.connectors', artifactId: 'mule-db-connector', version: '1.15.0' },
+      { groupId: 'org.mule.tools.maven', artifactId: 'mule-maven-plugin', version: '4.4.0' },
+    ]).data!;
+
+    expect(result.updates.map((u) => [u.location, u.from])).toEqual([
+      ['project/profiles/profile[0]/properties/db.version', '1.14.0'],
+      ['project/properties/mule.maven.plugin.version', '4.1.1'],
+      ['project/profiles/profile[0]/properties/mule.maven.plugin.version', '4.3.0'],
+    ]);
+    expect(result.content).toContain('<db.version>1.15.0</db.version>');
+    expect(result.content.match(/4\.4\.0/g)).toHaveLength(2);
+  });
+
+  it('should refuse versions it cannot edit safely', () => {
+    const update = (artifactId: string, version: string) =>
+      applyVersionChanges(POM, [{ groupId: 'com.acme', artifactId, version }]);
+
+    expect(update('acme-utils', '2.0.0').error?.message).toContain('cannot update version');
+    expect(update('acme-missing', '2.0.0').error?.message).toContain('is not declared');
+    expect(update('acme-utils', '2.0</version>').error?.message).toContain('Invalid version');
+  });
+});
+
+describe('deps set / upgrade', () => {
+  beforeEach(() => {
+    setLogLevel('silent');
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'pom.xml'), POM);
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should show a diff without writing pom.xml in dry-run', async () => {
+    const result = await setDependencyVersion({
+      coordinates: 'org.mule.modules:mule-apikit-module',
+      version: '1.11.0',
+      dryRun: true,
+      cwd: TEST_DIR,
+    });
+
+    expect(result.data?.changes).toEqual([
+      {
+        file: 'pom.xml',
+        line: 39,
+        before: '      <version>1.10.4</version>',
+        after: '      <version>1.11.0</version>',
+      },
+    ]);
+    expect(readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8')).toBe(POM);
+  });
+
+  it('should upgrade outdated and blocked versions to the catalog version', async () => {
+    writeFileSync(
+      join(TEST_DIR, 'mule-build-catalog.yaml'),
+      `artifacts:
+  org.mule.connectors:mule-http-connector:
+    latest: 1.10.3
+  com.fasterxml.jackson.core:jackson-databind:
+    blocked:
+      - versions: "<2.13.4"
+  org.mule.modules:mule-apikit-module:
+    latest: 1.10.4
+`
+    );
+
+    const result = await upgradeDependencies({ cwd: TEST_DIR });
+    const content = readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8');
+
+    expect(result.data?.updates.map((u) => `${u.artifactId}:${u.to}`)).toEqual([
+      'mule-http-connector:1.10.3',
+    ]);
+    expect(result.data?.skipped.map((d) => d.artifactId)).toEqual(['jackson-databind']);
+    expect(content).toContain('<connectors.version>1.10.3</connectors.version>');
+  });
+
+  it('should require a catalog to upgrade', async () => {
+    const result = await upgradeDependencies({ cwd: TEST_DIR });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('No version catalog found');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { execSync } from 'child_process';
+import { scanHistory } from '../src/engine/HistoryScanner.js';
+import { enforceToJunit } from '../src/reporters/junit.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-history-test-' + Date.now());
+const RESOURCES = join('src', 'main', 'resources');
+
+function git(args: string): string {
+  return execSync(`git -c user.name="Dev One" -c user.email=dev@example.com ${args}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+function commitFile(file: string, content: string, message: string): string {
+  writeFileSync(join(TEST_DIR, file), content);
+  git(`add -A`);
+  git(`commit -q -m "${message}"`);
+  return git('rev-parse HEAD');
+}
+
+describe('HistoryScanner', () => {
+  beforeEach(() => {
+    mkdirSync(join(TEST_DIR, RESOURCES), { recursive: true });
+    git('init -q');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should find secrets that were committed and later removed', async () => {
+    const file = join(RESOURCES, 'dev.properties');
+    const leaked = commitFile(file, 'db.host=localhost\ndb.password=hunter2\n', 'Add config');
+    commitFile(file, 'db.host=localhost\ndb.password=![c2VjcmV0]\n', 'Encrypt password');
+
+    const result = await scanHistory(TEST_DIR);
+    const [violation] = result.data!.violations;
+
+    expect(result.data!.valid).toBe(false);
+    expect(result.data!.violations).toHaveLength(1);
+    expect(violation).toMatchObject({
+      kind: 'plaintext-secret',
+      file: 'src/main/resources/dev.properties',
+      line: 2,
+      property: 'db.password',
+      commit: { sha: leaked, author: 'Dev One', email: 'dev@example.com' },
+    });
+    expect(result.data!.filesChecked).toHaveLength(2);
+  });
+
+  it('should report literal credentials once, for the commit that introduced them', async () => {
+    const xml = join('src', 'main', 'global.xml');
+    const first = commitFile(xml, '<mule>\n  <db:config password="hunter2"/>\n</mule>', 'Add db');
+    commitFile(xml, '<mule>\n  <db:config password="hunter2" user="app"/>\n</mule>', 'Add user');
+
+    const result = await scanHistory(TEST_DIR);
+
+    expect(result.data!.violations.map((v) => [v.kind, v.commit?.sha])).toEqual([
+      ['hardcoded-credential', first],
+    ]);
+    expect(enforceToJunit(result.data!)).toContain(
+      `name="src/main/global.xml@${first.slice(0, 7)}"`
+    );
+  });
+
+  it('should report a rotated secret under the same key again', async () => {
+    const file = join(RESOURCES, 'dev.properties');
+    const first = commitFile(file, 'db.password=hunter2\n', 'Add password');
+    const rotated = commitFile(file, 'db.password=hunter3\n', 'Rotate password');
+    commitFile(file, '# comment\ndb.password=hunter3\n', 'Add comment');
+
+    const result = await scanHistory(TEST_DIR);
+
+    expect(result.data!.violations.map((v) => [v.property, v.commit?.sha])).toEqual([
+      ['db.password', first],
+      ['db.password', rotated],
+    ]);
+    expect(JSON.stringify(result.data)).not.toContain('hunter');
+  });
+
+  it('should only scan commits after --since', async () => {
+    const file = join(RESOURCES, 'dev.properties');
+    const base = commitFile(file, 'api.secret=abc123\n', 'Leak');
+    commitFile(file, 'api.secret=![c2VjcmV0]\n', 'Encrypt');
+
+    const result = await scanHistory(TEST_DIR, { since: base });
+
+    expect(result.data!.valid).toBe(true);
+    expect(result.data!.filesChecked).toHaveLength(1);
+  });
+
+  it('should scan only the project when it is in a subdirectory of the repository', async () => {
+    for (const app of ['app1', 'app10']) {
+      mkdirSync(join(TEST_DIR, 'mono', app, RESOURCES), { recursive: true });
+      writeFileSync(
+        join(TEST_DIR, 'mono', app, RESOURCES, 'dev.properties'),
+        'x.password=leaked\n'
+      );
+    }
+    const sha = commitFile('README.md', 'readme', 'Add apps');
+
+    const result = await scanHistory(join(TEST_DIR, 'mono', 'app1'), { pathPrefix: RESOURCES });
+
+    expect(result.data!.filesChecked).toEqual([
+      `src/main/resources/dev.properties@${sha.slice(0, 7)}`,
+    ]);
+    expect(result.data!.violations).toHaveLength(1);
+    expect(result.data!.violations[0]).toMatchObject({
+      file: 'src/main/resources/dev.properties',
+      property: 'x.password',
+    });
+  });
+
+  it('should reject unsafe refs', async () => {
+    commitFile('README.md', 'readme', 'Init');
+
+    const result = await scanHistory(TEST_DIR, { since: 'main; rm -rf /' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('Invalid git ref');
+  });
+});
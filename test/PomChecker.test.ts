@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parsePom } from '../src/engine/PomModel.js';
+import { checkPomModel, findMissingMavenProfiles } from '../src/engine/PomChecker.js';
+import { listDependencies } from '../src/engine/DependencyAnalyzer.js';
+import { checkPom } from '../src/api/pom.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-pom-test-' + Date.now());
+
+const POM = `<project>
+  <groupId>com.acme</groupId>
+  <artifactId>orders-api</artifactId>
+  <version>1.0.0</version>
+  <packaging>mule-application</packaging>
+  <properties>
+    <app.runtime>4.6.0</app.runtime>
+    <mule.maven.plugin.version>4.1.1</mule.maven.plugin.version>
+  </properties>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.mule.tools.maven</groupId>
+        <artifactId>mule-maven-plugin</artifactId>
+        <version>\${mule.maven.plugin.version}</version>
+      </plugin>
+    </plugins>
+  </build>
+  <repositories>
+    <repository>
+      <id>anypoint-exchange-v3</id>
+      <url>https://maven.anypoint.mulesoft.com/api/v3/maven</url>
+    </repository>
+    <repository>
+      <id>mulesoft-releases</id>
+      <url>https://repository.mulesoft.org/releases/</url>
+    </repository>
+  </repositories>
+  <pluginRepositories>
+    <pluginRepository>
+      <id>mule-public</id>
+      <url>https://repository.mulesoft.org/releases/</url>
+    </pluginRepository>
+  </pluginRepositories>
+  <profiles>
+    <profile>
+      <id>prod</id>
+    </profile>
+  </profiles>
+</project>
+`;
+
+const config = { profiles: { production: { mavenProfile: 'prod' } } };
+
+describe('PomChecker', () => {
+  beforeEach(() => {
+    setLogLevel('silent');
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should accept a complete Mule pom', () => {
+    expect(checkPomModel(parsePom(POM).data!, config)).toEqual([]);
+  });
+
+  it('should report packaging, plugin and runtime property problems with lines', () => {
+    const pom = POM.replace('mule-application', 'jar')
+      .replace('<app.runtime>4.6.0</app.runtime>', '')
+      .replace('${mule.maven.plugin.version}', '${plugin.version}');
+
+    const issues = checkPomModel(parsePom(pom).data!, config);
+
+    expect(issues.map((i) => [i.rule, i.severity, i.line])).toEqual([
+      ['packaging', 'error', 5],
+      ['mule-maven-plugin', 'error', 12],
+      ['runtime-properties', 'error', 6],
+    ]);
+    expect(issues[0].message).toContain("is 'jar'");
+    expect(issues[1].message).toContain('${plugin.version} cannot be resolved');
+    expect(issues[2].message).toContain('app.runtime');
+  });
+
+  it('should apply the default plugin groupId like the dependency analyzer', () => {
+    const model = parsePom(POM.replace('<groupId>org.mule.tools.maven</groupId>', '')).data!;
+
+    expect(checkPomModel(model, config).map((i) => i.rule)).toEqual(['mule-maven-plugin']);
+    expect(listDependencies(model).map((d) => d.artifactId)).toEqual([]);
+  });
+
+  it('should warn when the MuleSoft release repositories are missing', () => {
+    const pom = POM.replace(/<pluginRepositories>[\s\S]*<\/pluginRepositories>/, '').replace(
+      '<id>mulesoft-releases</id>',
+      '<id>releases</id>'
+    );
+
+    const issues = checkPomModel(parsePom(pom).data!, config);
+
+    expect(issues).toEqual([
+      {
+        rule: 'repositories',
+        severity: 'warning',
+        message: 'No mulesoft-releases plugin repository in <pluginRepositories>',
+      },
+    ]);
+  });
+
+  it('should report Maven profiles that pom.xml does not define', () => {
+    const model = parsePom(POM).data!;
+
+    expect(findMissingMavenProfiles(model, 'prod, cloudhub,!debug,-local')).toEqual(['cloudhub']);
+
+    const issues = checkPomModel(model, {
+      profiles: { production: { mavenProfile: 'prd' }, sandbox: { mavenProfile: 'prod' } },
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rule: 'maven-profile', line: 35 });
+    expect(issues[0].message).toBe(
+      "Profile 'production' uses Maven profile 'prd', which is not defined in <profiles>"
+    );
+  });
+
+  it('should check the profiles from mule-build.yaml', async () => {
+    writeFileSync(join(TEST_DIR, 'pom.xml'), POM);
+    writeFileSync(join(TEST_DIR, 'mule-build.yaml'), 'profiles:\n  qa:\n    mavenProfile: qa\n');
+
+    const result = await checkPom({ cwd: TEST_DIR });
+
+    expect(result.data?.valid).toBe(false);
+    expect(result.data?.issues.map((i) => i.message)).toEqual([
+      "Profile 'qa' uses Maven profile 'qa', which is not defined in <profiles>",
+    ]);
+  });
+
+  it('should only warn about built-in profiles when there is no mule-build.yaml', async () => {
+    writeFileSync(join(TEST_DIR, 'pom.xml'), POM.replace(/<profiles>[\s\S]*<\/profiles>/, ''));
+
+    const result = await checkPom({ cwd: TEST_DIR });
+
+    expect(result.data?.valid).toBe(true);
+    expect(result.data?.issues).toEqual([
+      {
+        rule: 'maven-profile',
+        severity: 'warning',
+        message:
+          "Built-in profile 'production' uses Maven profile 'prod', which is not defined in <profiles>",
+      },
+    ]);
+  });
+
+  it('should fail without a pom.xml', async () => {
+    const result = await checkPom({ cwd: TEST_DIR });
+
+    expect(result.success).toBe(false);
+  });
+});
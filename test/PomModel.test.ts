@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parsePom, setPomValue, resolvePomValue } from '../src/engine/PomModel.js';
+import { getPomInfo, getVersion, setVersion, setName } from '../src/engine/PomParser.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-pom-test-' + Date.now());
+
+const POM = `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0">
+  <modelVersion>4.0.0</modelVersion>
+  <!-- <version>9.9.9</version> in a comment -->
+  <parent>
+    <groupId>com.acme</groupId>
+    <artifactId>acme-parent</artifactId>
+    <version>2.0.0</version>
+  </parent>
+  <groupId>com.acme.apps</groupId>
+  <artifactId>orders-api</artifactId>
+  <version>1.4.0</version>
+  <packaging>mule-application</packaging>
+  <name>Orders API</name>
+
+  <properties>
+    <app.runtime>4.6.0</app.runtime>
+    <mule.maven.plugin.version>4.1.1</mule.maven.plugin.version>
+  </properties>
+
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.mule.tools.maven</groupId>
+        <artifactId>mule-maven-plugin</artifactId>
+        <version>\${mule.maven.plugin.version}</version>
+        <configuration><name>not-the-project</name></configuration>
+      </plugin>
+    </plugins>
+  </build>
+
+  <dependencies>
+    <dependency>
+      <groupId>org.mule.connectors</groupId>
+      <artifactId>mule-http-connector</artifactId>
+      <version>1.9.3</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+    <dependency>
+      <groupId>org.mule.connectors</groupId>
+      <artifactId>mule-db-connector</artifactId>
+      <version>1.14.6</version>
+      <classifier>mule-plugin</classifier>
+    </dependency>
+  </dependencies>
+
+  <profiles>
+    <profile>
+      <id>ci</id>
+      <properties>
+        <skipTests>true</skipTests>
+      </properties>
+    </profile>
+  </profiles>
+</project>
+`;
+
+describe('PomModel', () => {
+  it('should read the project coordinates, not the parent or plugin values', () => {
+    const model = parsePom(POM).data!;
+
+    expect(model).toMatchObject({
+      groupId: 'com.acme.apps',
+      artifactId: 'orders-api',
+      version: '1.4.0',
+      name: 'Orders API',
+      packaging: 'mule-application',
+      parent: { groupId: 'com.acme', artifactId: 'acme-parent', version: '2.0.0' },
+    });
+  });
+
+  it('should read properties, dependencies, plugins and profiles', () => {
+    const model = parsePom(POM).data!;
+
+    expect(model.properties).toEqual({
+      'app.runtime': '4.6.0',
+      'mule.maven.plugin.version': '4.1.1',
+    });
+    expect(model.dependencies.map((d) => `${d.artifactId}:${d.version}`)).toEqual([
+      'mule-http-connector:1.9.3',
+      'mule-db-connector:1.14.6',
+    ]);
+    expect(model.dependencies[1].path).toBe('project/dependencies/dependency[1]');
+    expect(model.plugins[0]).toMatchObject({
+      artifactId: 'mule-maven-plugin',
+      version: '${mule.maven.plugin.version}',
+    });
+    expect(model.profiles[0]).toMatchObject({ id: 'ci', properties: { skipTests: 'true' } });
+  });
+
+  it('should edit a single value and leave the rest of the file untouched', () => {
+    const model = parsePom(POM).data!;
+    const updated = setPomValue(
+      model,
+      'project/dependencies/dependency[1]/version',
+      '1.15.0'
+    ).data!;
+
+    expect(updated).toBe(POM.replace('<version>1.14.6</version>', '<version>1.15.0</version>'));
+  });
+
+  it('should expand self-closing elements and escape values', () => {
+    const model = parsePom('<project>\n  <name/>\n</project>').data!;
+
+    expect(setPomValue(model, 'project/name', 'A & B').data).toBe(
+      '<project>\n  <name>A &amp; B</name>\n</project>'
+    );
+  });
+
+  it('should resolve nested property references and leave unknown ones', () => {
+    const model = parsePom(
+      '<project><version>1.2.0</version><properties><a>${b}</a><b>3.1</b><loop>${loop}</loop></properties></project>'
+    ).data!;
+
+    expect(resolvePomValue(model, '${a}')).toEqual({ value: '3.1', resolved: true, property: 'a' });
+    expect(resolvePomValue(model, '${project.version}-x').value).toBe('1.2.0-x');
+    expect(resolvePomValue(model, '${loop}').resolved).toBe(false);
+    expect(resolvePomValue(model, '${nope}')).toEqual({ value: '${nope}', resolved: false });
+  });
+
+  it('should reject malformed XML and missing elements', () => {
+    expect(parsePom('<project><version>1.0</project>').error?.message).toContain(
+      'unexpected </project>'
+    );
+    expect(parsePom('<settings/>').error?.message).toContain('no <project> element');
+    expect(setPomValue(parsePom(POM).data!, 'project/description', 'x').success).toBe(false);
+  });
+});
+
+describe('PomParser', () => {
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'pom.xml'), POM);
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should bump the project version, not the parent version', () => {
+    expect(setVersion('1.5.0', TEST_DIR).success).toBe(true);
+
+    const content = readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8');
+    expect(content).toContain('<version>2.0.0</version>');
+    expect(content).toContain('<version>1.5.0</version>');
+    expect(content).toContain('<!-- <version>9.9.9</version> in a comment -->');
+  });
+
+  it('should rename the project, not plugin configuration', () => {
+    setName('orders-api-prod', TEST_DIR);
+
+    const content = readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8');
+    expect(content).toContain('<name>orders-api-prod</name>');
+    expect(content).toContain('<name>not-the-project</name>');
+  });
+
+  it('should inherit the version and groupId from the parent', () => {
+    writeFileSync(
+      join(TEST_DIR, 'pom.xml'),
+      POM.replace('<version>1.4.0</version>', '').replace('<groupId>com.acme.apps</groupId>', '')
+    );
+
+    expect(getPomInfo(TEST_DIR).data).toEqual({
+      version: '2.0.0',
+      groupId: 'com.acme',
+      artifactId: 'orders-api',
+      name: 'Orders API',
+    });
+    expect(setVersion('2.0.1', TEST_DIR).error?.message).toContain('inherited from the parent');
+  });
+
+  it('should read and bump a ${revision} version through its pom property', () => {
+    writeFileSync(
+      join(TEST_DIR, 'pom.xml'),
+      POM.replace(
+        '<version>1.4.0</version>',
+        '<version>${revision}${changelist}</version>'
+      ).replace(
+        '<properties>',
+        '<properties>\n    <revision>1.4.0</revision>\n    <changelist>-SNAPSHOT</changelist>'
+      )
+    );
+
+    expect(getVersion(TEST_DIR).data).toBe('1.4.0-SNAPSHOT');
+    expect(setVersion('1.5.0-SNAPSHOT', TEST_DIR).data).toBe('pom.xml');
+
+    const content = readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8');
+    expect(content).toContain('<revision>1.5.0</revision>');
+    expect(content).toContain('<version>${revision}${changelist}</version>');
+    expect(getVersion(TEST_DIR).data).toBe('1.5.0-SNAPSHOT');
+    expect(setVersion('1.5.0', TEST_DIR).error?.message).toContain('only ${revision}');
+  });
+
+  it('should prefer and update properties from .mvn/maven.config', () => {
+    const pom = POM.replace('<version>1.4.0</version>', '<version>${revision}</version>').replace(
+      '<properties>',
+      '<properties>\n    <revision>0.0.0</revision>'
+    );
+    writeFileSync(join(TEST_DIR, 'pom.xml'), pom);
+    mkdirSync(join(TEST_DIR, '.mvn'));
+    writeFileSync(join(TEST_DIR, '.mvn', 'maven.config'), '-B\n-Drevision=2.1.0\n-Dsha1=\n');
+
+    expect(getPomInfo(TEST_DIR).data?.version).toBe('2.1.0');
+    expect(setVersion('2.2.0', TEST_DIR).data).toBe(join('.mvn', 'maven.config'));
+
+    expect(readFileSync(join(TEST_DIR, '.mvn', 'maven.config'), 'utf-8')).toBe(
+      '-B\n-Drevision=2.2.0\n-Dsha1=\n'
+    );
+    expect(readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8')).toBe(pom);
+  });
+
+  it('should report versions that cannot be resolved', () => {
+    writeFileSync(
+      join(TEST_DIR, 'pom.xml'),
+      POM.replace('<version>1.4.0</version>', '<version>${revision}</version>')
+    );
+
+    expect(getVersion(TEST_DIR).error?.message).toContain('${revision} cannot be resolved');
+    expect(setVersion('1.5.0', TEST_DIR).success).toBe(false);
+  });
+});
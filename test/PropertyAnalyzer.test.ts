@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  checkMissingProperties,
+  findUnusedProperties,
+  findPropertySources,
+  resolveSourceFiles,
+  resolveAllSourceFiles,
+} from '../src/engine/PropertyAnalyzer.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-props-test-' + Date.now());
+const MULE_DIR = join(TEST_DIR, 'src', 'main', 'mule');
+const RESOURCES_DIR = join(TEST_DIR, 'src', 'main', 'resources');
+
+const GLOBAL_XML = `<mule>
+  <configuration-properties file="config/\${env}.yaml"/>
+  <configuration-properties file="common.properties"/>
+  <secure-properties:config name="secure" file="config/\${env}-secure.yaml" key="\${secure.key}">
+    <secure-properties:encrypt algorithm="AES"/>
+  </secure-properties:config>
+  <!-- <configuration-properties file="old.yaml"/> -->
+  <http:listener-config name="http">
+    <http:listener-connection host="0.0.0.0" port="\${http.port}"/>
+  </http:listener-config>
+  <db:config name="db">
+    <db:my-sql-connection host="\${db.host}" password="\${secure::db.password}"/>
+  </db:config>
+</mule>`;
+
+describe('PropertyAnalyzer', () => {
+  beforeEach(() => {
+    mkdirSync(MULE_DIR, { recursive: true });
+    mkdirSync(join(RESOURCES_DIR, 'config'), { recursive: true });
+    mkdirSync(join(RESOURCES_DIR, 'dwl'), { recursive: true });
+
+    writeFileSync(join(MULE_DIR, 'global.xml'), GLOBAL_XML);
+    writeFileSync(join(RESOURCES_DIR, 'common.properties'), 'http.port=8081\n');
+    writeFileSync(join(RESOURCES_DIR, 'config', 'dev.yaml'), 'db:\n  host: localhost\n');
+    writeFileSync(join(RESOURCES_DIR, 'config', 'dev-secure.yaml'), 'db:\n  password: "![x]"\n');
+    writeFileSync(join(RESOURCES_DIR, 'config', 'prod.yaml'), 'db:\n  port: 5432\n');
+    writeFileSync(join(RESOURCES_DIR, 'dwl', 'lookup.dwl'), "%dw 2.0\n---\np('api.url')");
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  describe('findPropertySources', () => {
+    it('should find configuration and secure property files', () => {
+      const sources = findPropertySources([join(MULE_DIR, 'global.xml')]);
+
+      expect(sources.map((s) => [s.file, s.secure])).toEqual([
+        ['config/${env}.yaml', false],
+        ['common.properties', false],
+        ['config/${env}-secure.yaml', true],
+      ]);
+      expect(sources[2].placeholders).toEqual(['env', 'secure.key']);
+    });
+  });
+
+  describe('resolveSourceFiles', () => {
+    it('should substitute the environment or match every environment', () => {
+      const [source] = findPropertySources([join(MULE_DIR, 'global.xml')]);
+
+      expect(resolveSourceFiles(source, RESOURCES_DIR, 'dev')).toEqual([
+        join(RESOURCES_DIR, 'config', 'dev.yaml'),
+      ]);
+      expect(resolveSourceFiles(source, RESOURCES_DIR)).toContain(
+        join(RESOURCES_DIR, 'config', 'prod.yaml')
+      );
+    });
+
+    it('should assign overlapping matches to the most specific source', () => {
+      const sources = findPropertySources([join(MULE_DIR, 'global.xml')]);
+      const files = resolveAllSourceFiles(sources, RESOURCES_DIR);
+
+      expect(files.get(join(RESOURCES_DIR, 'config', 'dev-secure.yaml'))?.secure).toBe(true);
+      expect(files.get(join(RESOURCES_DIR, 'config', 'dev.yaml'))?.secure).toBe(false);
+      expect(files.size).toBe(4);
+    });
+  });
+
+  describe('checkMissingProperties', () => {
+    it('should report references missing from the environment files', () => {
+      const result = checkMissingProperties('dev', TEST_DIR);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.valid).toBe(false);
+      expect(result.data?.missing.map((m) => m.property)).toEqual(['api.url']);
+    });
+
+    it('should require secure:: keys in the secure file', () => {
+      const result = checkMissingProperties('prod', TEST_DIR);
+
+      expect(result.data?.missing.map((m) => [m.property, m.secure])).toEqual([
+        ['db.host', false],
+        ['db.password', true],
+        ['api.url', false],
+      ]);
+    });
+
+    it('should fail when no property files exist for the environment', () => {
+      rmSync(join(RESOURCES_DIR, 'common.properties'));
+      const result = checkMissingProperties('qa', TEST_DIR);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('findUnusedProperties', () => {
+    it('should report keys no file references across every environment', () => {
+      writeFileSync(
+        join(RESOURCES_DIR, 'common.properties'),
+        'http.port=8081\nbase.url=http://${api.host}\napi.host=example.com\nold.key=1\n'
+      );
+      const result = findUnusedProperties(TEST_DIR);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.valid).toBe(true);
+      expect(result.data?.unused.map((u) => u.property).sort()).toEqual([
+        'base.url',
+        'db.port',
+        'old.key',
+      ]);
+    });
+
+    it('should check property files that no configuration declares', () => {
+      writeFileSync(join(RESOURCES_DIR, 'local.properties'), 'http.port=9000\nlocal.debug=true\n');
+      mkdirSync(join(RESOURCES_DIR, 'api'));
+      writeFileSync(join(RESOURCES_DIR, 'api', 'orders.yaml'), 'openapi: 3.0.0\n');
+
+      const result = findUnusedProperties(TEST_DIR);
+
+      expect(result.data?.undeclaredFiles).toEqual([
+        join('src', 'main', 'resources', 'local.properties'),
+      ]);
+      expect(result.data?.propertyFiles).toContain(
+        join('src', 'main', 'resources', 'local.properties')
+      );
+      expect(result.data?.unused).toContainEqual({
+        property: 'local.debug',
+        file: join('src', 'main', 'resources', 'local.properties'),
+        line: 2,
+      });
+      expect(result.data?.unused.map((u) => u.property)).not.toContain('openapi');
+    });
+
+    it('should fail when unused keys exceed the maximum', () => {
+      expect(findUnusedProperties(TEST_DIR, { maxUnused: 0 }).data?.valid).toBe(false);
+      expect(findUnusedProperties(TEST_DIR, { maxUnused: 1 }).data?.valid).toBe(true);
+    });
+  });
+});
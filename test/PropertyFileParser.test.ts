@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePropertyFile,
+  getPropertyFileFormat,
+  isEncryptedValue,
+} from '../src/engine/PropertyFileParser.js';
+
+describe('PropertyFileParser', () => {
+  describe('getPropertyFileFormat', () => {
+    it('should detect properties and YAML files', () => {
+      expect(getPropertyFileFormat('config/dev.properties')).toBe('properties');
+      expect(getPropertyFileFormat('config/dev.yaml')).toBe('yaml');
+      expect(getPropertyFileFormat('config/dev.yml')).toBe('yaml');
+      expect(getPropertyFileFormat('global.xml')).toBeUndefined();
+    });
+  });
+
+  describe('isEncryptedValue', () => {
+    it('should recognise the ![...] form', () => {
+      expect(isEncryptedValue('![nHmjM3qbxQk=]')).toBe(true);
+      expect(isEncryptedValue('  ![abc]  ')).toBe(true);
+      expect(isEncryptedValue('hunter2')).toBe(false);
+      expect(isEncryptedValue('![abc')).toBe(false);
+    });
+  });
+
+  describe('parsePropertyFile (properties)', () => {
+    it('should parse separators, comments and line numbers', () => {
+      const content = `# comment
+db.host=localhost
+db.port : 5432
+! another comment
+
+db.user admin`;
+
+      const entries = parsePropertyFile(content, 'properties');
+
+      expect(entries.map((e) => [e.key, e.value, e.line])).toEqual([
+        ['db.host', 'localhost', 2],
+        ['db.port', '5432', 3],
+        ['db.user', 'admin', 6],
+      ]);
+    });
+
+    it('should report the value source range', () => {
+      const content = 'db.password = hunter2\n';
+      const [entry] = parsePropertyFile(content, 'properties');
+
+      expect(content.slice(entry.start, entry.end)).toBe('hunter2');
+    });
+
+    it('should join continuation lines', () => {
+      const content = 'api.scopes=read,\\\n    write\nnext=1';
+      const entries = parsePropertyFile(content, 'properties');
+
+      expect(entries[0].value).toBe('read,write');
+      expect(entries[1].line).toBe(3);
+    });
+  });
+
+  describe('parsePropertyFile (yaml)', () => {
+    it('should flatten nested keys with line numbers', () => {
+      const content = `db:
+  host: "localhost"
+  password: hunter2
+http:
+  port: 8081`;
+
+      const entries = parsePropertyFile(content, 'yaml');
+
+      expect(entries.map((e) => [e.key, e.value, e.line])).toEqual([
+        ['db.host', 'localhost', 2],
+        ['db.password', 'hunter2', 3],
+        ['http.port', '8081', 5],
+      ]);
+    });
+
+    it('should report the value source range including quotes', () => {
+      const content = 'db:\n  password: "![abc=]"\n';
+      const [entry] = parsePropertyFile(content, 'yaml');
+
+      expect(entry.value).toBe('![abc=]');
+      expect(content.slice(entry.start, entry.end)).toBe('"![abc=]"');
+    });
+  });
+});
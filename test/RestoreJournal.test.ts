@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  beginJournal,
+  recordFile,
+  recordCreatedFile,
+  restoreJournal,
+  discardJournal,
+  findPendingJournals,
+} from '../src/engine/RestoreJournal.js';
+import { restoreBuild } from '../src/api/restore.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-restore-test-' + Date.now());
+const GLOBAL_XML = join('src', 'main', 'mule', 'global.xml');
+
+describe('RestoreJournal', () => {
+  beforeEach(() => {
+    setLogLevel('silent');
+    mkdirSync(join(TEST_DIR, 'src', 'main', 'mule'), { recursive: true });
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project/>');
+    writeFileSync(join(TEST_DIR, GLOBAL_XML), '<mule/>');
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should restore recorded files to their original content', () => {
+    const journal = beginJournal(TEST_DIR).data!;
+    recordFile(journal, join(TEST_DIR, 'pom.xml'));
+    recordFile(journal, GLOBAL_XML);
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project><name>changed</name></project>');
+    writeFileSync(join(TEST_DIR, GLOBAL_XML), '<mule>changed</mule>');
+
+    const result = restoreJournal(journal);
+
+    expect(result.data).toEqual(['pom.xml', GLOBAL_XML]);
+    expect(readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8')).toBe('<project/>');
+    expect(readFileSync(join(TEST_DIR, GLOBAL_XML), 'utf-8')).toBe('<mule/>');
+    expect(existsSync(journal.dir)).toBe(false);
+  });
+
+  it('should keep the first backup when a file is recorded twice', () => {
+    const journal = beginJournal(TEST_DIR).data!;
+    recordFile(journal, 'pom.xml');
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project>1</project>');
+    recordFile(journal, 'pom.xml');
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project>2</project>');
+
+    restoreJournal(journal);
+
+    expect(journal.files).toEqual(['pom.xml']);
+    expect(readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8')).toBe('<project/>');
+  });
+
+  it('should remove files created by the build', () => {
+    const journal = beginJournal(TEST_DIR).data!;
+    recordCreatedFile(journal, 'local.yaml');
+    writeFileSync(join(TEST_DIR, 'local.yaml'), 'password: hunter2');
+
+    const result = restoreJournal(journal);
+
+    expect(result.data).toEqual(['local.yaml']);
+    expect(existsSync(join(TEST_DIR, 'local.yaml'))).toBe(false);
+  });
+
+  it('should find journals left behind and ignore discarded ones', () => {
+    const pending = beginJournal(TEST_DIR).data!;
+    recordFile(pending, 'pom.xml');
+    const finished = beginJournal(TEST_DIR).data!;
+    discardJournal(finished);
+
+    const journals = findPendingJournals(TEST_DIR);
+
+    expect(journals.map((j) => j.id)).toEqual([pending.id]);
+    expect(journals[0].files).toEqual(['pom.xml']);
+    expect(readFileSync(join(TEST_DIR, '.mule-build', 'restore', '.gitignore'), 'utf-8')).toBe(
+      '*\n'
+    );
+  });
+
+  it('should restore interrupted builds with the restore command', async () => {
+    const journal = beginJournal(TEST_DIR).data!;
+    recordFile(journal, GLOBAL_XML);
+    writeFileSync(join(TEST_DIR, GLOBAL_XML), '<mule>changed</mule>');
+
+    const result = await restoreBuild({ cwd: TEST_DIR });
+
+    expect(result.data).toEqual({ journals: 1, filesRestored: [GLOBAL_XML] });
+    expect(readFileSync(join(TEST_DIR, GLOBAL_XML), 'utf-8')).toBe('<mule/>');
+    expect(findPendingJournals(TEST_DIR)).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getDecryptedPath, planSecureDecryption } from '../src/engine/SecureDecryption.js';
+import { encryptValue, wrapEncrypted } from '../src/engine/SecureProperties.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-decrypt-test-' + Date.now());
+const MULE_DIR = join(TEST_DIR, 'src', 'main', 'mule');
+const RESOURCES_DIR = join(TEST_DIR, 'src', 'main', 'resources');
+const AES_KEY = 'mulesoft12345678';
+
+const GLOBAL_XML = `<mule xmlns="http://www.mulesoft.org/schema/mule/core"
+      xmlns:secure-properties="http://www.mulesoft.org/schema/mule/secure-properties"
+      xsi:schemaLocation="http://www.mulesoft.org/schema/mule/core http://www.mulesoft.org/schema/mule/core/current/mule.xsd http://www.mulesoft.org/schema/mule/secure-properties http://www.mulesoft.org/schema/mule/secure-properties/current/mule-secure-properties.xsd">
+  <configuration-properties file="config/\${env}.yaml" />
+  <secure-properties:config name="secure" file="config/\${env}-secure.yaml" key="\${secure.key}">
+    <secure-properties:encrypt algorithm="AES" mode="CBC" />
+  </secure-properties:config>
+</mule>`;
+
+describe('SecureDecryption', () => {
+  beforeEach(() => {
+    mkdirSync(MULE_DIR, { recursive: true });
+    mkdirSync(join(RESOURCES_DIR, 'config'), { recursive: true });
+    writeFileSync(join(MULE_DIR, 'global.xml'), GLOBAL_XML);
+
+    const encrypted = wrapEncrypted(encryptValue('hunter2', { key: AES_KEY }).data!);
+    for (const env of ['dev', 'qa']) {
+      writeFileSync(
+        join(RESOURCES_DIR, 'config', `${env}-secure.yaml`),
+        `db:\n  password: "${encrypted}"\n  user: "app"\n`
+      );
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should name decrypted copies after the secure file', () => {
+    expect(getDecryptedPath('config/${env}-secure.yaml')).toBe(
+      'config/${env}-secure.decrypted.yaml'
+    );
+    expect(getDecryptedPath('secure.properties')).toBe('secure.decrypted.properties');
+  });
+
+  it('should decrypt every matching secure file into a plaintext copy', () => {
+    const result = planSecureDecryption(MULE_DIR, RESOURCES_DIR, AES_KEY);
+    const created = result.data!.changes.filter((c) => c.created);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.count).toBe(2);
+    expect(created.map((c) => c.file).sort()).toEqual([
+      join(RESOURCES_DIR, 'config', 'dev-secure.decrypted.yaml'),
+      join(RESOURCES_DIR, 'config', 'qa-secure.decrypted.yaml'),
+    ]);
+    expect(created[0].content).toBe('db:\n  password: "hunter2"\n  user: "app"\n');
+
+    // Nothing is written by the plan itself
+    expect(existsSync(created[0].file)).toBe(false);
+  });
+
+  it('should replace the secure-properties config with configuration-properties', () => {
+    const result = planSecureDecryption(MULE_DIR, RESOURCES_DIR, AES_KEY);
+    const xml = result.data!.changes.find((c) => !c.created)!;
+
+    expect(xml.file).toBe(join(MULE_DIR, 'global.xml'));
+    expect(xml.content).toContain(
+      '  <configuration-properties file="config/${env}-secure.decrypted.yaml" />\n'
+    );
+    expect(xml.content).not.toContain('secure-properties');
+  });
+
+  it('should fail with the wrong key', () => {
+    const result = planSecureDecryption(MULE_DIR, RESOURCES_DIR, 'wrongkey12345678');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('Failed to decrypt');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, getCiphers } from 'crypto';
+import {
+  encryptValue,
+  decryptValue,
+  encryptFileContent,
+  decryptFileContent,
+  wrapEncrypted,
+  unwrapEncrypted,
+} from '../src/engine/SecureProperties.js';
+
+const AES_KEY = 'mulesoft12345678';
+
+/**
+ * Fixed AES/CBC/PKCS5Padding vectors with the key bytes as IV, the settings of
+ * secure-properties-tool.jar without random IVs. Computed independently with
+ * `openssl enc -aes-<bits>-cbc -K <hex key> -iv <hex of first 16 key bytes> | base64`.
+ */
+const AES_CBC_VECTORS = [
+  { key: AES_KEY, plaintext: 'hunter2', encrypted: '9PsgyHK+Z8LVL8DGhsUnCA==' },
+  {
+    key: AES_KEY,
+    plaintext: 'Mule Runtime 4.6!',
+    encrypted: 'pvVA0pksCSS9Wmw459dH6zqoAWmpfuEVY87VRFH1tlg=',
+  },
+  {
+    key: '0123456789abcdef0123456789abcdef',
+    plaintext: 'hunter2',
+    encrypted: 'r06KOlud4+uBflVTe0sZLg==',
+  },
+];
+const blowfishAvailable = getCiphers().includes('bf-cbc');
+
+describe('SecureProperties', () => {
+  describe('encryptValue / decryptValue', () => {
+    for (const mode of ['CBC', 'CFB', 'ECB'] as const) {
+      it(`should round-trip AES/${mode}`, () => {
+        const encrypted = encryptValue('hunter2', { key: AES_KEY, mode });
+        expect(encrypted.success).toBe(true);
+
+        const decrypted = decryptValue(encrypted.data!, { key: AES_KEY, mode });
+        expect(decrypted.data).toBe('hunter2');
+      });
+    }
+
+    for (const { key, plaintext, encrypted } of AES_CBC_VECTORS) {
+      it(`should match the secure properties tool for '${plaintext}' (${key.length * 8}-bit key)`, () => {
+        expect(encryptValue(plaintext, { key }).data).toBe(encrypted);
+        expect(decryptValue(`![${encrypted}]`, { key }).data).toBe(plaintext);
+      });
+    }
+
+    it('should be deterministic without random IVs', () => {
+      const a = encryptValue('hunter2', { key: AES_KEY });
+      const b = encryptValue('hunter2', { key: AES_KEY });
+
+      expect(a.data).toBe(b.data);
+    });
+
+    it('should prepend a random IV when requested', () => {
+      const a = encryptValue('hunter2', { key: AES_KEY, useRandomIVs: true });
+      const b = encryptValue('hunter2', { key: AES_KEY, useRandomIVs: true });
+
+      expect(a.data).not.toBe(b.data);
+      expect(decryptValue(a.data!, { key: AES_KEY, useRandomIVs: true }).data).toBe('hunter2');
+    });
+
+    it('should accept wrapped values when decrypting', () => {
+      const encrypted = encryptValue('hunter2', { key: AES_KEY });
+      const decrypted = decryptValue(wrapEncrypted(encrypted.data!), { key: AES_KEY });
+
+      expect(decrypted.data).toBe('hunter2');
+    });
+
+    it('should reject invalid AES key lengths', () => {
+      const result = encryptValue('hunter2', { key: 'short' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('AES keys');
+    });
+
+    it('should fail to decrypt with any wrong key', () => {
+      const encrypted = encryptValue('hunter2', { key: AES_KEY }).data!;
+      const results = Array.from({ length: 2000 }, (_, i) =>
+        decryptValue(encrypted, {
+          key: createHash('sha256').update(`key-${i}`).digest('hex').slice(0, 16),
+        })
+      );
+
+      expect(results.filter((r) => r.success)).toEqual([]);
+      for (const result of results) {
+        expect(result.error?.message).toContain('Check the key, algorithm and mode');
+      }
+    });
+
+    it.skipIf(!blowfishAvailable)('should round-trip Blowfish/CBC', () => {
+      const encrypted = encryptValue('hunter2', { key: 'mykey', algorithm: 'Blowfish' });
+      const decrypted = decryptValue(encrypted.data!, { key: 'mykey', algorithm: 'Blowfish' });
+
+      expect(decrypted.data).toBe('hunter2');
+    });
+  });
+
+  describe('wrapEncrypted / unwrapEncrypted', () => {
+    it('should add and remove the ![...] wrapper', () => {
+      expect(wrapEncrypted('abc=')).toBe('![abc=]');
+      expect(unwrapEncrypted('![abc=]')).toBe('abc=');
+      expect(unwrapEncrypted('abc=')).toBe('abc=');
+    });
+  });
+
+  describe('encryptFileContent / decryptFileContent', () => {
+    it('should encrypt every plaintext value in a properties file', () => {
+      const content = `# secrets
+db.password=hunter2
+api.secret=![already]
+empty=
+`;
+      const result = encryptFileContent(content, 'properties', { key: AES_KEY });
+
+      expect(result.data?.count).toBe(1);
+      expect(result.data?.result).toMatch(/^db\.password=!\[[A-Za-z0-9+/=]+\]$/m);
+      expect(result.data?.result).toContain('api.secret=![already]');
+      expect(result.data?.result).toContain('# secrets');
+    });
+
+    it('should quote encrypted YAML values and round-trip', () => {
+      const content = `db:
+  password: hunter2 # inline comment
+  user: "admin"
+`;
+      const encrypted = encryptFileContent(content, 'yaml', { key: AES_KEY });
+
+      expect(encrypted.data?.count).toBe(2);
+      expect(encrypted.data?.result).toMatch(/password: "!\[[^\]]+\]" # inline comment/);
+
+      const decrypted = decryptFileContent(encrypted.data!.result, 'yaml', { key: AES_KEY });
+
+      expect(decrypted.data?.result).toContain('password: "hunter2" # inline comment');
+      expect(decrypted.data?.result).toContain('user: "admin"');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  createWorkspace,
+  removeWorkspace,
+  findExternalBuildInputs,
+} from '../src/engine/Workspace.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-workspace-test-' + Date.now());
+
+describe('Workspace', () => {
+  beforeEach(() => {
+    mkdirSync(join(TEST_DIR, 'src', 'main', 'mule'), { recursive: true });
+    mkdirSync(join(TEST_DIR, 'target'), { recursive: true });
+    mkdirSync(join(TEST_DIR, '.git'), { recursive: true });
+    writeFileSync(join(TEST_DIR, 'pom.xml'), '<project/>');
+    writeFileSync(join(TEST_DIR, 'src', 'main', 'mule', 'global.xml'), '<mule/>');
+    writeFileSync(join(TEST_DIR, 'target', 'old.jar'), '');
+    writeFileSync(join(TEST_DIR, '.git', 'HEAD'), 'ref: refs/heads/main');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should copy the project without build output and VCS metadata', () => {
+    const result = createWorkspace(TEST_DIR);
+    const workspace = result.data!;
+
+    expect(result.success).toBe(true);
+    expect(readFileSync(join(workspace, 'src', 'main', 'mule', 'global.xml'), 'utf-8')).toBe(
+      '<mule/>'
+    );
+    expect(existsSync(join(workspace, 'pom.xml'))).toBe(true);
+    expect(existsSync(join(workspace, 'target'))).toBe(false);
+    expect(existsSync(join(workspace, '.git'))).toBe(false);
+
+    removeWorkspace(workspace);
+    expect(existsSync(workspace)).toBe(false);
+  });
+
+  it('should leave the project untouched when the workspace is modified', () => {
+    const workspace = createWorkspace(TEST_DIR).data!;
+    writeFileSync(join(workspace, 'pom.xml'), '<project><name>changed</name></project>');
+
+    expect(readFileSync(join(TEST_DIR, 'pom.xml'), 'utf-8')).toBe('<project/>');
+    removeWorkspace(workspace);
+  });
+
+  it('should create a separate workspace for each build', () => {
+    const first = createWorkspace(TEST_DIR).data!;
+    const second = createWorkspace(TEST_DIR).data!;
+
+    expect(first).not.toBe(second);
+    removeWorkspace(first);
+    removeWorkspace(second);
+  });
+
+  it('should find a relative parent pom and an ancestor .mvn outside the project', () => {
+    const app = join(TEST_DIR, 'apps', 'orders-api');
+    mkdirSync(join(TEST_DIR, '.mvn'), { recursive: true });
+    mkdirSync(app, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'apps', 'pom.xml'), '<project/>');
+    writeFileSync(
+      join(app, 'pom.xml'),
+      '<project><parent><artifactId>apps</artifactId></parent></project>'
+    );
+
+    expect(findExternalBuildInputs(TEST_DIR)).toEqual([]);
+    expect(findExternalBuildInputs(app)).toEqual([join('..', 'pom.xml'), join('..', '..', '.mvn')]);
+
+    // A parent resolved from a repository and a project-level .mvn stay inside
+    writeFileSync(
+      join(app, 'pom.xml'),
+      '<project><parent><artifactId>apps</artifactId><relativePath/></parent></project>'
+    );
+    mkdirSync(join(app, '.mvn'));
+    expect(findExternalBuildInputs(app)).toEqual([]);
+  });
+});
@@ -1,5 +1,18 @@
-import { describe, it, expect } from 'vitest';
-import { stripSecureFromContent, findUnsecuredProperties } from '../src/engine/XmlProcessor.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  stripSecureFromContent,
+  findUnsecuredProperties,
+  findPlaintextSecrets,
+  findHardcodedCredentials,
+  fixUnsecuredInContent,
+} from '../src/engine/XmlProcessor.js';
+import { enforceSecure } from '../src/api/enforce.js';
+import { setLogLevel } from '../src/utils/logger.js';
+
+const TEST_DIR = join(tmpdir(), 'mule-build-xml-test-' + Date.now());
 
 describe('XmlProcessor', () => {
   describe('stripSecureFromContent', () => {
@@ -46,6 +59,26 @@ describe('XmlProcessor', () => {
       expect(count).toBe(2);
     });
 
+    it("should strip bare p('secure::prop') and double-quoted DataWeave formats", () => {
+      const input = `var user = p('secure::db.user')
+var pass = Mule::p("secure::db.password")`;
+      const { result, count } = stripSecureFromContent(input);
+
+      expect(result).toBe(`var user = p('db.user')
+var pass = Mule::p("db.password")`);
+      expect(count).toBe(2);
+    });
+
+    it('should strip entity-quoted DataWeave references in XML attributes', () => {
+      const input = `<set-variable value="#[Mule::p(&quot;secure::api.secret&quot;)]"/>
+<set-payload value="#[p(&apos;secure::api.token&apos;)]"/>`;
+      const { result, count } = stripSecureFromContent(input);
+
+      expect(result).toBe(`<set-variable value="#[Mule::p(&quot;api.secret&quot;)]"/>
+<set-payload value="#[p(&apos;api.token&apos;)]"/>`);
+      expect(count).toBe(2);
+    });
+
     it('should not modify content without secure:: prefix', () => {
       const input = 'host="${db.host}" port="${db.port}"';
       const { result, count } = stripSecureFromContent(input);
@@ -86,6 +119,23 @@ describe('XmlProcessor', () => {
       expect(violations[1].property).toBe('api.secret');
     });
 
+    it('should find entity-quoted DataWeave references in XML attributes', () => {
+      const content = `<set-variable value="#[Mule::p(&quot;api.secret&quot;)]"/>
+<set-variable value="#[p(&apos;secure::db.password&apos;) ++ p(&quot;safe.prop&quot;)]"/>`;
+
+      const violations = findUnsecuredProperties(content);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        property: 'api.secret',
+        line: 1,
+        value: 'Mule::p(&quot;api.secret&quot;)',
+      });
+      expect(fixUnsecuredInContent(content).result).toContain(
+        'Mule::p(&quot;secure::api.secret&quot;)'
+      );
+    });
+
     it('should not flag already secured properties', () => {
       const content = `
         <config>
@@ -113,6 +163,41 @@ describe('XmlProcessor', () => {
       expect(violations[0].property).toBe('db.password');
     });
 
+    it('should flag findings suppressed by ignore comments or the allowlist', () => {
+      const content = `<config>
+  <!-- mule-build-ignore-next-line -->
+  <property value="\${api.key.header.name}"/>
+  <property value="\${cache.keyPrefix}"/>
+  <property value="\${oauth.keyAlias}"/>
+  <property value="\${db.password}"/>
+</config>`;
+
+      const violations = findUnsecuredProperties(content, undefined, [
+        'cache.keyPrefix',
+        '/^oauth\\./',
+      ]);
+
+      expect(violations.map((v) => [v.property, v.suppressed])).toEqual([
+        ['api.key.header.name', true],
+        ['cache.keyPrefix', true],
+        ['oauth.keyAlias', true],
+        ['db.password', false],
+      ]);
+    });
+
+    it('should find unsecured bare p() references in DataWeave modules', () => {
+      const content = `%dw 2.0
+var password = p('db.password')
+var token = p("api.token")
+var host = p('db.host')
+var secured = p('secure::api.secret')`;
+
+      const violations = findUnsecuredProperties(content);
+
+      expect(violations.map((v) => v.property)).toEqual(['db.password', 'api.token']);
+      expect(violations[0].line).toBe(2);
+    });
+
     it('should use custom sensitive patterns', () => {
       const content = `
         <config>
@@ -138,4 +223,167 @@ line4`;
       expect(violations[0].line).toBe(3);
     });
   });
+
+  describe('findPlaintextSecrets', () => {
+    it('should flag sensitive keys with plaintext values in properties files', () => {
+      const content = `db.host=localhost
+db.password=hunter2
+api.secret=![nHmjM3qbxQk=]`;
+
+      const violations = findPlaintextSecrets(content, 'properties');
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].property).toBe('db.password');
+      expect(violations[0].line).toBe(2);
+      expect(violations[0].value).not.toContain('hunter2');
+    });
+
+    it('should flag nested YAML keys with plaintext values', () => {
+      const content = `salesforce:
+  username: "integration@example.com"
+  password: "P@ssw0rd"
+  token: "![Zm9vYmFy]"`;
+
+      const violations = findPlaintextSecrets(content, 'yaml');
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].property).toBe('salesforce.password');
+      expect(violations[0].line).toBe(3);
+    });
+
+    it('should ignore empty values and placeholders', () => {
+      const content = `db.password=
+api.token=\${API_TOKEN}`;
+
+      const violations = findPlaintextSecrets(content, 'properties');
+
+      expect(violations).toHaveLength(0);
+    });
+  });
+
+  describe('findHardcodedCredentials', () => {
+    it('should flag literal values in sensitive attributes', () => {
+      const content = `<mule>
+  <db:config name="db">
+    <db:my-sql-connection host="localhost"
+        user="admin"
+        password="P@ssw0rd"/>
+  </db:config>
+  <oauth:config clientSecret='abc123' tokenUrl="https://auth.example.com/token"/>
+</mule>`;
+
+      const violations = findHardcodedCredentials(content);
+
+      expect(violations.map((v) => [v.attribute, v.line])).toEqual([
+        ['password', 5],
+        ['clientSecret', 7],
+      ]);
+      expect(violations[0].value).not.toContain('P@ssw0rd');
+    });
+
+    it('should not flag references, expressions or empty values', () => {
+      const content = `<mule>
+  <db:my-sql-connection password="\${secure::db.password}"/>
+  <http:request keyPassword="#[vars.keyPassword]" storePassword=""/>
+</mule>`;
+
+      expect(findHardcodedCredentials(content)).toHaveLength(0);
+    });
+
+    it('should ignore commented-out elements', () => {
+      const content = `<mule>
+  <!-- <db:my-sql-connection password="old"/> -->
+  <tls:key-store keyPassword="changeit"/>
+</mule>`;
+
+      const violations = findHardcodedCredentials(content);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].attribute).toBe('keyPassword');
+      expect(violations[0].line).toBe(3);
+    });
+  });
+
+  describe('fixUnsecuredInContent', () => {
+    it('should add secure:: to sensitive references only', () => {
+      const input = `<db:my-sql-connection host="\${db.host}" password="\${db.password}"/>
+<set-variable value="#[Mule::p('api.secret')]"/>
+var token = p("api.token")`;
+      const { result, count } = fixUnsecuredInContent(input);
+
+      expect(result)
+        .toBe(`<db:my-sql-connection host="\${db.host}" password="\${secure::db.password}"/>
+<set-variable value="#[Mule::p('secure::api.secret')]"/>
+var token = p("secure::api.token")`);
+      expect(count).toBe(3);
+    });
+
+    it('should skip suppressed lines and allowlisted properties', () => {
+      const input = [
+        '# mule-build-ignore-next-line',
+        "header: p('api.key.header.name')",
+        "prefix: p('cache.keyPrefix')",
+        "password: p('db.password')",
+      ].join('\n');
+      const { result, count } = fixUnsecuredInContent(input, undefined, ['cache.keyPrefix']);
+
+      expect(count).toBe(1);
+      expect(result).toContain("p('api.key.header.name')");
+      expect(result).toContain("p('cache.keyPrefix')");
+      expect(result).toContain("p('secure::db.password')");
+    });
+
+    it('should leave already secured references untouched', () => {
+      const input = 'password="${secure::db.password}"';
+      const { result, count } = fixUnsecuredInContent(input);
+
+      expect(result).toBe(input);
+      expect(count).toBe(0);
+    });
+
+    it('should be reversed by stripSecureFromContent', () => {
+      const input = `<!-- keep -->\n<x password="\${db.password}" key='\${api.key}'/>`;
+      const fixed = fixUnsecuredInContent(input).result;
+
+      expect(fixed).not.toBe(input);
+      expect(stripSecureFromContent(fixed).result).toBe(input);
+    });
+  });
+
+  describe('enforceSecure default target', () => {
+    beforeEach(() => {
+      setLogLevel('silent');
+      mkdirSync(join(TEST_DIR, 'src', 'main', 'mule'), { recursive: true });
+      mkdirSync(join(TEST_DIR, 'src', 'main', 'resources', 'api', 'examples'), { recursive: true });
+      mkdirSync(join(TEST_DIR, 'src', 'main', 'resources', 'config'), { recursive: true });
+    });
+
+    afterEach(() => {
+      setLogLevel('info');
+      if (existsSync(TEST_DIR)) {
+        rmSync(TEST_DIR, { recursive: true, force: true });
+      }
+    });
+
+    it('should check property files but not the API specs in src/main/resources', async () => {
+      const resources = join(TEST_DIR, 'src', 'main', 'resources');
+      writeFileSync(join(TEST_DIR, 'src', 'main', 'mule', 'app.xml'), '<mule/>');
+      writeFileSync(join(resources, 'config', 'dev.yaml'), 'db:\n  password: "hunter2"\n');
+      writeFileSync(join(resources, 'log4j2.xml'), '<Configuration/>');
+      writeFileSync(join(resources, 'keystore.jks'), 'binary');
+      writeFileSync(join(resources, 'api', 'orders.yaml'), 'password: "example"\n');
+      writeFileSync(join(resources, 'api', 'examples', 'login.xml'), '<login password="x"/>');
+
+      const result = await enforceSecure({ cwd: TEST_DIR, baseline: false });
+
+      expect(result.data!.filesChecked.sort()).toEqual([
+        join('src', 'main', 'mule', 'app.xml'),
+        join('src', 'main', 'resources', 'config', 'dev.yaml'),
+        join('src', 'main', 'resources', 'log4j2.xml'),
+      ]);
+      expect(result.data!.violations.map((v) => v.file)).toEqual([
+        join('src', 'main', 'resources', 'config', 'dev.yaml'),
+      ]);
+    });
+  });
 });
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, getFileChanges, formatDiff } from '../src/utils/diff.js';
+
+describe('diff', () => {
+  describe('diffLines', () => {
+    it('should report changed lines with their line numbers', () => {
+      const before = 'a\nb="${db.password}"\nc\nd="${api.secret}"';
+      const after = 'a\nb="${secure::db.password}"\nc\nd="${secure::api.secret}"';
+
+      expect(diffLines(before, after)).toEqual([
+        { line: 2, before: 'b="${db.password}"', after: 'b="${secure::db.password}"' },
+        { line: 4, before: 'd="${api.secret}"', after: 'd="${secure::api.secret}"' },
+      ]);
+    });
+
+    it('should return no changes for identical content', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([]);
+    });
+
+    it('should align removed lines', () => {
+      const before = 'one\ntwo\nthree\nfour';
+      const after = 'one\nfour';
+
+      expect(diffLines(before, after)).toEqual([
+        { line: 2, before: 'two', after: '' },
+        { line: 3, before: 'three', after: '' },
+      ]);
+    });
+  });
+
+  describe('formatDiff', () => {
+    it('should format changes as a unified-diff style report', () => {
+      const changes = getFileChanges('src/main/mule/global.xml', 'x\n${a}', 'x\n${b}');
+
+      expect(formatDiff(changes)).toBe(
+        [
+          '--- a/src/main/mule/global.xml',
+          '+++ b/src/main/mule/global.xml',
+          '@@ line 2 @@',
+          '-${a}',
+          '+${b}',
+        ].join('\n')
+      );
+    });
+  });
+});
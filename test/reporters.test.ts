@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  enforceToJunit,
+  stripToJunit,
+  formatEnforceReport,
+  formatStripReport,
+  depsToText,
+} from '../src/reporters/index.js';
+import { EnforceResult, StripResult } from '../src/types/index.js';
+
+const enforceResult: EnforceResult = {
+  valid: false,
+  filesChecked: ['src/main/mule/global.xml', 'src/main/mule/api.xml'],
+  suppressed: 1,
+  violations: [
+    {
+      kind: 'unsecured-reference',
+      file: 'src/main/mule/global.xml',
+      line: 3,
+      property: 'db.password',
+      value: '${db.password}',
+      suggestion: '${secure::db.password}',
+    },
+    {
+      kind: 'hardcoded-credential',
+      file: 'src/main/mule/global.xml',
+      line: 7,
+      property: 'password',
+      value: 'password="********"',
+      suggestion: 'password="${secure::<property.name>}"',
+    },
+  ],
+};
+
+const stripResult: StripResult = {
+  filesProcessed: ['src/main/mule/global.xml'],
+  replacementCount: 1,
+  changes: [
+    {
+      file: 'src/main/mule/global.xml',
+      line: 3,
+      before: '<x password="${secure::db.password}"/>',
+      after: '<x password="${db.password}"/>',
+    },
+  ],
+};
+
+describe('Reporters', () => {
+  describe('enforceToJunit', () => {
+    it('should report each file as a testcase and each violation as a failure', () => {
+      const xml = enforceToJunit(enforceResult);
+
+      expect(xml).toContain('<testsuite name="mule-build enforce" tests="2" failures="1"');
+      expect(xml).toContain(
+        '<testcase classname="src.main.mule" name="src/main/mule/api.xml" file="src/main/mule/api.xml"/>'
+      );
+      expect(xml.match(/<failure /g)).toHaveLength(2);
+      expect(xml).toContain('type="hardcoded-credential"');
+    });
+
+    it('should escape XML special characters', () => {
+      const xml = enforceToJunit(enforceResult);
+
+      expect(xml).toContain('message="src/main/mule/global.xml:7 - password=&quot;********&quot;"');
+      expect(xml).not.toContain('<property.name>');
+    });
+  });
+
+  describe('stripToJunit', () => {
+    it('should list changed lines for each processed file', () => {
+      const xml = stripToJunit(stripResult);
+
+      expect(xml).toContain('tests="1" failures="0"');
+      expect(xml).toContain('<system-out>line 3: &lt;x password=');
+    });
+  });
+
+  describe('format selection', () => {
+    it('should render JSON and text reports', () => {
+      expect(JSON.parse(formatEnforceReport(enforceResult, 'json'))).toEqual(enforceResult);
+      expect(formatEnforceReport(enforceResult, 'text')).toContain(
+        'src/main/mule/global.xml:3 - ${db.password} [unsecured-reference]'
+      );
+      expect(JSON.parse(formatEnforceReport(enforceResult, 'sarif')).version).toBe('2.1.0');
+      expect(formatStripReport(stripResult, 'text')).toContain('+<x password="${db.password}"/>');
+    });
+  });
+
+  describe('depsToText', () => {
+    it('should group dependencies by category with their catalog status', () => {
+      const text = depsToText({
+        valid: false,
+        catalog: 'mule-build-catalog.yaml',
+        outdated: 1,
+        blocked: 1,
+        dependencies: [
+          {
+            groupId: 'org.mule.connectors',
+            artifactId: 'mule-http-connector',
+            category: 'connector',
+            declaredVersion: '${http.version}',
+            version: '1.9.3',
+            property: 'http.version',
+            status: 'outdated',
+            latest: '1.10.3',
+          },
+          {
+            groupId: 'com.fasterxml.jackson.core',
+            artifactId: 'jackson-databind',
+            category: 'library',
+            version: '2.13.0',
+            status: 'blocked',
+            reason: 'CVE-2022-42003',
+          },
+        ],
+      });
+
+      expect(text).toContain('Connectors (1)');
+      expect(text).not.toContain('Modules');
+      expect(text).toContain('1.9.3 (${http.version})  outdated, latest 1.10.3');
+      expect(text).toContain('2.13.0  BLOCKED: CVE-2022-42003');
+      expect(text).toContain('Checked against mule-build-catalog.yaml: 1 outdated, 1 blocked');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { toSarif } from '../src/reporters/sarif.js';
+import { enforceSecure } from '../src/engine/XmlProcessor.js';
+import { EnforceResult } from '../src/types/index.js';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('toSarif', () => {
+  const result: EnforceResult = {
+    valid: false,
+    filesChecked: ['src/main/mule/global.xml', 'src/main/resources/dev.yaml'],
+    suppressed: 0,
+    violations: [
+      {
+        kind: 'unsecured-reference',
+        file: 'src/main/mule/global.xml',
+        line: 3,
+        column: 15,
+        endColumn: 29,
+        property: 'db.password',
+        value: '${db.password}',
+        suggestion: '${secure::db.password}',
+      },
+      {
+        kind: 'plaintext-secret',
+        file: 'src/main/resources/dev.yaml',
+        line: 2,
+        column: 13,
+        property: 'db.password',
+        value: 'db.password=********',
+        suggestion: 'db.password: "![<encrypted value>]"',
+      },
+      {
+        kind: 'hardcoded-credential',
+        file: 'src/main/mule/global.xml',
+        line: 5,
+        column: 20,
+        endColumn: 38,
+        property: 'password',
+        value: 'password="********"',
+        suggestion: 'password="${secure::<property.name>}"',
+      },
+    ],
+  };
+
+  it('should emit SARIF 2.1.0 with a rule per violation kind', () => {
+    const sarif = toSarif(result);
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map((r) => r.id)).toEqual([
+      'unsecured-reference',
+      'plaintext-secret',
+      'hardcoded-credential',
+      'high-entropy-secret',
+    ]);
+    expect(sarif.runs[0].results.map((r) => [r.ruleId, r.ruleIndex])).toEqual([
+      ['unsecured-reference', 0],
+      ['plaintext-secret', 1],
+      ['hardcoded-credential', 2],
+    ]);
+  });
+
+  it('should include locations and the suggestion as a fix', () => {
+    const [reference, secret, credential] = toSarif(result).runs[0].results;
+
+    expect(reference.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/main/mule/global.xml', uriBaseId: 'SRCROOT' },
+      region: { startLine: 3, startColumn: 15, endColumn: 29 },
+    });
+    expect(reference.fixes?.[0].description.text).toBe('${secure::db.password}');
+    expect(reference.fixes?.[0].artifactChanges[0].replacements[0].deletedRegion).toEqual({
+      startLine: 3,
+      startColumn: 15,
+      endColumn: 29,
+    });
+
+    // Suggestions that are templates rather than exact replacements go in the message
+    expect(secret.fixes).toBeUndefined();
+    expect(secret.message.text).toContain('![<encrypted value>]');
+    expect(credential.fixes).toBeUndefined();
+    expect(credential.locations[0].physicalLocation.region?.endColumn).toBe(38);
+    expect(credential.message.text).toContain('Suggestion: password="${secure::<property.name>}"');
+  });
+
+  it('should report columns found by enforce', async () => {
+    const dir = join(tmpdir(), 'mule-build-sarif-test-' + Date.now());
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, 'global.xml'),
+      '<mule>\n  <db:config password="${db.password}" user="admin"/>\n</mule>'
+    );
+
+    const enforced = await enforceSecure(dir, { cwd: dir });
+    rmSync(dir, { recursive: true, force: true });
+
+    const [violation] = enforced.data!.violations;
+    expect([violation.line, violation.column, violation.endColumn]).toEqual([2, 24, 38]);
+  });
+});